@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { AutoSnapshotTrigger, NO_CHANGES_MESSAGE, SnapshotProvider } from './SnapshotProvider';
+import { SnapshotTreeProvider } from './SnapshotTreeProvider';
+
+export class AutoSnapshotManager implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private intervalTimer?: NodeJS.Timeout;
+    // Saves and idle time are tracked per workspace folder, since each folder has its own shadow repo.
+    private idleTimers: Map<string, NodeJS.Timeout> = new Map();
+    private saveCounts: Map<string, number> = new Map();
+    private runningFolders: Set<string> = new Set();
+
+    constructor(private treeProvider: SnapshotTreeProvider) {
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(document => this.onDidSave(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.onDidChange(event.document)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('workspaceSnapshots.autoSnapshot')) {
+                    this.restartIntervalTimer();
+                }
+            }),
+            // Any snapshot, manual or automatic, resets all triggers so they never fire back-to-back.
+            this.treeProvider.onDidCreateSnapshot(provider => this.resetTriggers(provider))
+        );
+        this.restartIntervalTimer();
+    }
+
+    private get config(): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('workspaceSnapshots.autoSnapshot');
+    }
+
+    private getProvider(document: vscode.TextDocument): SnapshotProvider | undefined {
+        return document.uri.scheme === 'file' ? this.treeProvider.getProviderForUri(document.uri) : undefined;
+    }
+
+    private onDidSave(document: vscode.TextDocument): void {
+        const provider = this.getProvider(document);
+        if (!provider) {
+            return;
+        }
+
+        const threshold = this.config.get<number>('saveCount', 0);
+        if (threshold > 0) {
+            const saveCount = (this.saveCounts.get(provider.workspaceRoot) || 0) + 1;
+            this.saveCounts.set(provider.workspaceRoot, saveCount);
+            if (saveCount >= threshold) {
+                this.saveCounts.set(provider.workspaceRoot, 0);
+                this.runSnapshot(provider, 'save');
+                return;
+            }
+        }
+        this.restartIdleTimer(provider);
+    }
+
+    private onDidChange(document: vscode.TextDocument): void {
+        const provider = this.getProvider(document);
+        if (provider) {
+            this.restartIdleTimer(provider);
+        }
+    }
+
+    private restartIntervalTimer(): void {
+        if (this.intervalTimer) {
+            clearInterval(this.intervalTimer);
+            this.intervalTimer = undefined;
+        }
+
+        const intervalMinutes = this.config.get<number>('intervalMinutes', 0);
+        if (intervalMinutes > 0) {
+            // The snapshot itself is skipped when the tree is clean, so the interval only produces checkpoints while dirty.
+            this.intervalTimer = setInterval(() => {
+                this.treeProvider.getProviders().forEach(provider => this.runSnapshot(provider, 'interval'));
+            }, intervalMinutes * 60 * 1000);
+        }
+    }
+
+    private restartIdleTimer(provider: SnapshotProvider): void {
+        this.clearIdleTimer(provider);
+
+        const idleSeconds = this.config.get<number>('idleSeconds', 0);
+        if (idleSeconds > 0) {
+            this.idleTimers.set(provider.workspaceRoot, setTimeout(() => this.runSnapshot(provider, 'idle'), idleSeconds * 1000));
+        }
+    }
+
+    private clearIdleTimer(provider: SnapshotProvider): void {
+        const idleTimer = this.idleTimers.get(provider.workspaceRoot);
+        if (idleTimer) {
+            clearTimeout(idleTimer);
+            this.idleTimers.delete(provider.workspaceRoot);
+        }
+    }
+
+    private resetTriggers(provider: SnapshotProvider): void {
+        this.saveCounts.set(provider.workspaceRoot, 0);
+        this.clearIdleTimer(provider);
+    }
+
+    private async runSnapshot(provider: SnapshotProvider, trigger: AutoSnapshotTrigger): Promise<void> {
+        // Triggers can overlap (e.g. a save and the idle timer), so only one snapshot per folder runs at a time.
+        // A folder removed from the workspace since the trigger was scheduled is skipped.
+        if (this.runningFolders.has(provider.workspaceRoot) || this.treeProvider.getProviderFor(provider) !== provider) {
+            return;
+        }
+        this.runningFolders.add(provider.workspaceRoot);
+
+        try {
+            await provider.createSnapshot(new Date().toLocaleString(), trigger);
+            await provider.refresh();
+            vscode.window.setStatusBarMessage(`$(device-camera) Automatic snapshot created for '${provider.workspaceFolder.name}'`, 3000);
+        } catch (error: any) {
+            // A clean tree is the normal case for timers; there is simply nothing to checkpoint.
+            if (error.message !== NO_CHANGES_MESSAGE) {
+                console.error('Failed to create automatic snapshot:', error);
+            }
+        } finally {
+            this.runningFolders.delete(provider.workspaceRoot);
+        }
+    }
+
+    public dispose(): void {
+        if (this.intervalTimer) {
+            clearInterval(this.intervalTimer);
+        }
+        this.idleTimers.forEach(timer => clearTimeout(timer));
+        this.disposables.forEach(d => d.dispose());
+    }
+}
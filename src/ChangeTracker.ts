@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { FileChange, Git, LineStats } from './Git';
+
+// File events arriving within this window are handled together.
+const DEBOUNCE_MS = 300;
+// A steady stream of events (e.g. `npm install`) still refreshes at least this often.
+const MAX_DELAY_MS = 2000;
+
+/**
+ * Tracks the uncommitted changes of one workspace folder.
+ * The status and line counts are read once and shared until something changes, and file events are coalesced,
+ * so a burst of thousands of events costs a single `git status`.
+ */
+export class ChangeTracker implements vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    // The cached results, or the runs that are producing them, with a way to stop those runs.
+    private status: Promise<FileChange[]> | null = null;
+    private lineStats: Promise<LineStats[]> | null = null;
+    private abortController = new AbortController();
+    private debounceTimer?: NodeJS.Timeout;
+    private firstPendingEvent: number | null = null;
+    private isExcluded: (relativePath: string) => boolean = () => false;
+
+    constructor(private readonly git: Git) {}
+
+    public setExclusionMatcher(isExcluded: (relativePath: string) => boolean): void {
+        this.isExcluded = isExcluded;
+    }
+
+    public getStatus(): Promise<FileChange[]> {
+        if (!this.status) {
+            this.status = this.track(signal => this.git.getStatus(signal), () => this.getStatus(), () => this.status = null);
+        }
+        return this.status;
+    }
+
+    /**
+     * Like getStatus, but file events that are still being coalesced are applied first, for callers that can't use an older status.
+     */
+    public getCurrentStatus(): Promise<FileChange[]> {
+        if (this.firstPendingEvent !== null) {
+            this.flushPendingEvents();
+        }
+        return this.getStatus();
+    }
+
+    public getLineStats(): Promise<LineStats[]> {
+        if (!this.lineStats) {
+            this.lineStats = this.track(signal => this.git.getWorkingTreeLineStats(signal), () => this.getLineStats(), () => this.lineStats = null);
+        }
+        return this.lineStats;
+    }
+
+    private track<T>(run: (signal: AbortSignal) => Promise<T>, retry: () => Promise<T>, forget: () => void): Promise<T> {
+        const signal = this.abortController.signal;
+        return run(signal).catch(error => {
+            if (signal.aborted) {
+                // Superseded by newer changes, whose result is what the caller wants anyway.
+                return retry();
+            }
+            // A failed run is not cached, so the next caller tries again, unless it was already replaced.
+            if (this.abortController.signal === signal) {
+                forget();
+            }
+            throw error;
+        });
+    }
+
+    /**
+     * Drops the cached results, and stops runs that are still in progress, since their results are already out of date.
+     */
+    public invalidate(): void {
+        this.abortController.abort();
+        this.abortController = new AbortController();
+        this.status = null;
+        this.lineStats = null;
+    }
+
+    /**
+     * Called for every file event in the folder, with the path relative to the folder.
+     */
+    public notifyFileChanged(relativePath: string): void {
+        // Excluded files never show up as changes, so they don't need git to tell.
+        if (this.isExcluded(relativePath)) {
+            return;
+        }
+
+        const now = Date.now();
+        this.firstPendingEvent = this.firstPendingEvent ?? now;
+        clearTimeout(this.debounceTimer);
+        const delay = Math.min(DEBOUNCE_MS, Math.max(0, this.firstPendingEvent + MAX_DELAY_MS - now));
+        this.debounceTimer = setTimeout(() => this.flushPendingEvents(), delay);
+    }
+
+    private flushPendingEvents(): void {
+        clearTimeout(this.debounceTimer);
+        this.firstPendingEvent = null;
+        this.invalidate();
+        this._onDidChange.fire();
+    }
+
+    public dispose(): void {
+        clearTimeout(this.debounceTimer);
+        this.invalidate();
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileHistoryItem } from './Snapshot';
+import { SnapshotTreeProvider } from './SnapshotTreeProvider';
+
+/**
+ * Lists every snapshot that touched the file in the active editor.
+ * VS Code's own Timeline view only accepts providers through a proposed API, which published extensions can't use,
+ * so the history gets a view of its own next to the snapshots.
+ */
+export class FileHistoryProvider implements vscode.TreeDataProvider<FileHistoryItem>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<FileHistoryItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<FileHistoryItem>;
+    private fileUri: vscode.Uri | undefined;
+
+    constructor(private treeProvider: SnapshotTreeProvider) {
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(editor => this.onDidChangeActiveEditor(editor)),
+            // Any change to the snapshots (new, deleted, renamed, restored) can change the history.
+            this.treeProvider.onDidChangeTreeData(() => this._onDidChangeTreeData.fire())
+        );
+        this.onDidChangeActiveEditor(vscode.window.activeTextEditor);
+    }
+
+    public setTreeView(treeView: vscode.TreeView<FileHistoryItem>): void {
+        this.treeView = treeView;
+        this.updateTitle();
+    }
+
+    private onDidChangeActiveEditor(editor: vscode.TextEditor | undefined): void {
+        // Opening a snapshot version or a diff keeps the history of the file it belongs to.
+        if (!editor || editor.document.uri.scheme !== 'file' || editor.document.uri.toString() === this.fileUri?.toString()) {
+            return;
+        }
+        this.fileUri = editor.document.uri;
+        this.updateTitle();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private updateTitle(): void {
+        if (!this.treeView) {
+            return;
+        }
+        this.treeView.description = this.fileUri ? path.basename(this.fileUri.fsPath) : undefined;
+    }
+
+    getTreeItem(element: FileHistoryItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: FileHistoryItem): Promise<FileHistoryItem[]> {
+        if (element) {
+            return [];
+        }
+
+        const provider = this.fileUri ? this.treeProvider.getProviderForUri(this.fileUri) : undefined;
+        if (!this.fileUri || !provider) {
+            this.setMessage('Open a file from the workspace to see the snapshots that changed it.');
+            return [];
+        }
+
+        try {
+            // Shadow repos always use forward slashes.
+            const filePath = path.relative(provider.workspaceRoot, this.fileUri.fsPath).split(path.sep).join('/');
+            const history = await provider.getFileHistory(filePath);
+            this.setMessage(history.length === 0 ? `No snapshot has changed '${path.basename(filePath)}' yet.` : undefined);
+            return history;
+        } catch (error: any) {
+            console.error('Failed to load the file history:', error);
+            return [];
+        }
+    }
+
+    private setMessage(message: string | undefined): void {
+        if (this.treeView) {
+            this.treeView.message = message;
+        }
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { exec, ExecOptions } from 'child_process';
+import { spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -9,11 +9,97 @@ export interface Commit {
     message: string;
     author: string;
     date: string;
+    timestamp: number; // Author time in milliseconds, for sorting and filtering by date.
 }
 
+export type FileStatus = 'A' | 'M' | 'D' | 'R';
+
 export interface FileChange {
     path: string;
-    status: 'A' | 'M' | 'D';
+    status: FileStatus;
+    oldPath?: string; // Only for renames: the path the file had before.
+}
+
+export interface LineStats {
+    path: string;
+    oldPath?: string; // Only for renames.
+    insertions: number;
+    deletions: number;
+    isBinary: boolean; // Binary files have no lines to count.
+}
+
+export interface TreeEntry {
+    mode: string;
+    blob: string;
+}
+
+export interface GrepMatch {
+    hash: string;
+    path: string;
+    line: number;   // 1-based.
+    column: number; // 1-based, in bytes, of the first match on the line.
+    text: string;
+}
+
+export interface GrepOptions {
+    isRegex: boolean;
+    matchCase: boolean;
+}
+
+// The exclusion rule that decides whether a path is snapshotted.
+export interface IgnoreRule {
+    source: string; // The file the rule comes from, as git reports it.
+    line: number;
+    pattern: string;
+}
+
+export interface CommitDetails {
+    message: string;
+    authorDate: string; // In git's raw "<seconds> <timezone>" format, so it can be passed back unchanged.
+}
+
+// A custom format that is easy to parse, including the parent hashes (%P).
+const COMMIT_FORMAT = '%H%x1F%P%x1F%s%x1F%an%x1F%ar%x1F%at'; // hash, parent hashes, subject, author, date, timestamp
+
+// Git's well-known hash of the empty tree, used to diff against "nothing".
+const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Gives every throwaway index its own name, so runs that overlap, or one that is being cancelled, never share a file.
+let throwawayIndexCount = 0;
+
+// Keeps the command line of a search across many snapshots well below the limits of every platform.
+const GREP_BATCH_SIZE = 50;
+
+// Set once git turns out to be built without Perl-compatible regexes, so regex searches stop trying them.
+let isPcreUnavailable = false;
+
+/**
+ * Git's own heuristic: content with a NUL byte in its first 8000 bytes is binary.
+ */
+export function isBinaryContent(content: Buffer): boolean {
+    return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * A git command that failed, with everything needed to tell why.
+ */
+export class GitError extends Error {
+    constructor(
+        public readonly args: string[],
+        public readonly exitCode: number | null, // null when git could not be started at all.
+        public readonly stderr: string
+    ) {
+        super(`Git command failed: git ${args.join(' ')}\n${stderr}`);
+        this.name = 'GitError';
+    }
+}
+
+interface RunOptions {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv; // Added to the extension's own environment.
+    input?: string | Buffer; // Written to stdin, e.g. for --pathspec-from-file=-.
+    acceptedExitCodes?: number[]; // Exit codes besides 0 that are not failures.
+    signal?: AbortSignal; // Kills git when aborted, for results nobody is waiting for anymore.
 }
 
 export class Git {
@@ -22,185 +108,583 @@ export class Git {
         private readonly workTree: string
     ) {}
 
-    private async execute(command: string, options: ExecOptions = {}): Promise<string> {
+    private run(args: string[], options: RunOptions = {}): Promise<Buffer> {
         // Essential: All git commands must operate on the shadow repo and user's work tree.
-        const fullCommand = `git --git-dir="${this.gitDir}" --work-tree="${this.workTree}" ${command}`;
-        
+        // The arguments go straight to git without a shell, so no character in a path or message needs escaping.
+        const fullArgs = [`--git-dir=${this.gitDir}`, `--work-tree=${this.workTree}`, ...args];
+
         return new Promise((resolve, reject) => {
-            exec(fullCommand, options, (error, stdout, stderr) => {
-                if (error) {
-                    // Combine stderr and error message for a more informative failure message.
-                    const errorMessage = `Git command failed: ${command}\n${stderr}\n${error.message}`;
-                    return reject(new Error(errorMessage));
+            const child = spawn('git', fullArgs, {
+                cwd: options.cwd,
+                env: options.env ? { ...process.env, ...options.env } : process.env,
+                signal: options.signal,
+                windowsHide: true,
+            });
+
+            // Output is collected as it streams in, so there is no limit on its size.
+            const stdout: Buffer[] = [];
+            const stderr: Buffer[] = [];
+            child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+            child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+            child.on('error', error => reject(new GitError(args, null, error.message)));
+            child.on('close', exitCode => {
+                if (exitCode !== 0 && !(options.acceptedExitCodes || []).includes(exitCode as number)) {
+                    return reject(new GitError(args, exitCode, Buffer.concat(stderr).toString().trim()));
                 }
-                resolve(stdout.trim());
+                resolve(Buffer.concat(stdout));
             });
+
+            // git may exit before reading all of its input; the exit code reports that, not a broken pipe.
+            child.stdin.on('error', () => {});
+            child.stdin.end(options.input);
         });
     }
 
+    private async execute(args: string[], options: RunOptions = {}): Promise<string> {
+        return (await this.run(args, options)).toString().trim();
+    }
+
     public async init(): Promise<void> {
         // This is a special case; --git-dir is the directory to create.
         if (fs.existsSync(this.gitDir)) {
             return;
         }
         fs.mkdirSync(this.gitDir, { recursive: true });
-        await this.execute(`init`);
+        await this.execute(['init']);
     }
 
     public async configure(): Promise<void> {
-        await this.execute('config user.name "Workspace Snapshots"');
-        await this.execute('config user.email "snapshots@vscode.ext"');
-        await this.execute('config commit.gpgSign false'); // Ensure no GPG signing prompts
+        await this.execute(['config', 'user.name', 'Workspace Snapshots']);
+        await this.execute(['config', 'user.email', 'snapshots@vscode.ext']);
+        await this.execute(['config', 'commit.gpgSign', 'false']); // Ensure no GPG signing prompts
     }
 
     public async createInitialCommit(): Promise<string> {
-        return this.execute('commit --allow-empty -m "Initial snapshot repository"');
+        return this.execute(['commit', '--allow-empty', '-m', 'Initial snapshot repository']);
+    }
+
+    public async stageAll(skippedPaths: string[] = []): Promise<void> {
+        await this.addAll(skippedPaths);
+        // Files excluded after they were first snapshotted are still tracked, and would otherwise stay in every snapshot.
+        await this.untrackIgnoredFiles();
+    }
+
+    private async addAll(skippedPaths: string[], options: RunOptions = {}): Promise<void> {
+        if (skippedPaths.length > 0) {
+            // Skipped files are kept out of `add` itself, so their content never reaches the object store.
+            const pathspecs = ['.', ...skippedPaths.map(p => `:(exclude,literal)${p}`)];
+            await this.execute(['add', '-A', '--pathspec-from-file=-', '--pathspec-file-nul'], { ...options, input: pathspecs.join('\0') });
+        } else {
+            await this.execute(['add', '-A', '.'], options);
+        }
+    }
+
+    public async hasStagedChanges(): Promise<boolean> {
+        return (await this.execute(['diff', '--cached', '--name-only'])).length > 0;
+    }
+
+    public async untrackIgnoredFiles(): Promise<void> {
+        const output = await this.execute(['ls-files', '-z', '--cached', '--ignored', '--exclude-standard']);
+        const files = output.split('\0').filter(file => file.length > 0);
+        if (files.length === 0) {
+            return;
+        }
+        // The paths are passed through stdin, since there can be far too many for a command line.
+        await this.execute(
+            ['rm', '-r', '--cached', '--quiet', '--ignore-unmatch', '--pathspec-from-file=-', '--pathspec-file-nul'],
+            { input: files.join('\0') }
+        );
     }
 
-    public async stageAll(): Promise<void> {
-        await this.execute('add -A .');
+    public async checkIgnore(filePath: string): Promise<IgnoreRule | null> {
+        // --no-index also explains files that are already tracked; exit code 1 means no rule matches.
+        const output = await this.execute(['check-ignore', '-v', '--no-index', '--', filePath], { acceptedExitCodes: [1] });
+        // Format: "<source>:<line>:<pattern>\t<path>"; the source can contain colons itself, e.g. a Windows drive.
+        const match = /^(.*?):(\d+):(.*)\t/.exec(output);
+        return match ? { source: match[1], line: parseInt(match[2], 10), pattern: match[3] } : null;
     }
 
     public async stageFile(filePath: string): Promise<void> {
-        await this.execute(`add -- "${filePath.replace(/"/g, '\\"')}"`);
+        await this.execute(['add', '--', filePath]);
     }
 
     public async commit(message: string): Promise<string> {
         // Use --no-verify to bypass any potential user-defined hooks in their global git config
-        await this.execute(`commit --no-verify -m "${message.replace(/"/g, '\\"')}"`);
+        await this.execute(['commit', '--no-verify', '-m', message]);
         // Return the hash of the new commit directly.
-        return this.execute('rev-parse HEAD');
+        return this.execute(['rev-parse', 'HEAD']);
     }
 
-    public async amendCommit(): Promise<string> {
-        // Use --no-verify to bypass hooks and --no-edit to keep the previous commit message.
-        await this.execute(`commit --no-verify --amend --no-edit`);
-        // Return the hash of the new (amended) commit.
-        return this.execute('rev-parse HEAD');
+    public async getUnstagedDiff(filePath: string): Promise<string> {
+        // Zero context lines keep every hunk minimal, so a selection maps cleanly onto the lines it changes.
+        return this.execute(['diff', '-U0', '--no-color', '--no-ext-diff', '--', filePath]);
     }
 
-    public async getStatus(): Promise<FileChange[]> {
-        const statusOutput = await this.execute('status --porcelain -uall');
-        if (!statusOutput) {
-            return [];
+    public async applyToIndex(patch: string): Promise<void> {
+        // --cached applies to the shadow index only; the working tree already has these changes.
+        await this.execute(['apply', '--cached', '--unidiff-zero', '--whitespace=nowarn', '-'], { input: patch });
+    }
+
+    public async applyToWorkTree(patch: Buffer): Promise<void> {
+        // git apply resolves the patch's paths against the current directory, so it has to run from the work tree.
+        await this.execute(['apply', '--whitespace=nowarn', '-'], { cwd: this.workTree, input: patch });
+    }
+
+    public async getPatch(fromHash: string | null, toHash: string): Promise<Buffer> {
+        // --binary makes the patch self-contained, so binary files can be applied on the other side as well.
+        // The output is kept untrimmed, since a binary block has to end with an empty line to be applied,
+        // and as raw bytes, since the files' lines are in whatever encoding the files use.
+        return this.run(['diff', '--binary', '--no-color', '--no-ext-diff', fromHash || EMPTY_TREE_HASH, toHash]);
+    }
+
+    public async getLineStats(diffs: { hash: string; parentHash: string | null }[]): Promise<Map<string, LineStats[]>> {
+        if (diffs.length === 0) {
+            return new Map();
         }
+        // A single diff-tree for all of them: each line is a commit followed by the commit to compare it with.
+        // --root lets a commit without anything to compare with count as entirely new.
+        const input = diffs.map(diff => diff.parentHash ? `${diff.hash} ${diff.parentHash}` : diff.hash).join('\n') + '\n';
+        const output = await this.run(['diff-tree', '--stdin', '--root', '-r', '-M', '-z', '--numstat'], { input });
+        const stats = this.parseNumstat(output.toString());
+        // Commits without any changes don't appear in the output at all.
+        return new Map(diffs.map(diff => [diff.hash, stats.get(diff.hash) || []]));
+    }
 
-        const lines = statusOutput
-            .split(/\r?\n/)                     // split by newlines handling both LF and CRLF line endings
-            .filter(line => line.length > 0);    // remove empty lines
+    public async getWorkingTreeLineStats(signal?: AbortSignal): Promise<LineStats[]> {
+        const output = await this.withWorkingTreeIndex(signal, options => this.run(['diff', '--numstat', '-M', '-z', 'HEAD'], options));
+        return this.parseNumstat(output.toString()).get('') || [];
+    }
 
-        return lines.map(line => {
-                // Trim spaces, remove ("") as git might add them if file name has spaces, and split by whitespace
-                const trimmedLine = line.trim().replace(/"/g, "");
-                const firstSpaceIndex = trimmedLine.indexOf(' ');
-                const statusChar = trimmedLine.slice(0, firstSpaceIndex);
-                const filePath = trimmedLine.slice(firstSpaceIndex + 1).trim();
+    /**
+     * Runs `run` with a throwaway copy of the index to which new files are added as intent-to-add.
+     * Only files in an index are diffed, and only then can a new file be paired with a deleted one as a rename.
+     */
+    private async withWorkingTreeIndex<T>(signal: AbortSignal | undefined, run: (options: RunOptions) => Promise<T>): Promise<T> {
+        const indexFile = path.join(this.gitDir, `worktree-${++throwawayIndexCount}.index`);
+        const realIndex = path.join(this.gitDir, 'index');
+        if (fs.existsSync(realIndex)) {
+            fs.copyFileSync(realIndex, indexFile);
+        }
+        const options: RunOptions = { signal, env: { GIT_INDEX_FILE: indexFile } };
 
-                // We map staged/unstaged changes to simpler statuses. 'A' for new, 'D' for deleted, 'M' for everything else.
-                let status: 'A' | 'M' | 'D';
-                if (statusChar.startsWith('A') || statusChar === '??') {
-                    status = 'A';
-                } else if (statusChar.startsWith('D')) {
-                    status = 'D';
-                } else {
-                    status = 'M';
+        try {
+            await this.execute(['add', '--intent-to-add', '.'], options);
+            return await run(options);
+        } finally {
+            fs.rmSync(indexFile, { force: true });
+        }
+    }
+
+    private parseNumstat(output: string): Map<string, LineStats[]> {
+        // Records are "<insertions>\t<deletions>\t<path>", or an empty path followed by the old and new path of a rename.
+        // diff-tree puts the hash of each commit in front of its records, in a field without tabs.
+        const stats = new Map<string, LineStats[]>();
+        let current: LineStats[] = [];
+        stats.set('', current);
+
+        const fields = output.split('\0');
+        for (let i = 0; i < fields.length; i++) {
+            const match = /^(-|\d+)\t(-|\d+)\t([^]*)$/.exec(fields[i]);
+            if (!match) {
+                if (fields[i]) {
+                    current = [];
+                    stats.set(fields[i], current);
                 }
-                return { status, path: filePath };
-            });
+                continue;
+            }
+            const [, insertions, deletions, filePath] = match;
+            const isBinary = insertions === '-';
+            const entry: LineStats = {
+                path: filePath,
+                insertions: isBinary ? 0 : parseInt(insertions, 10),
+                deletions: isBinary ? 0 : parseInt(deletions, 10),
+                isBinary,
+            };
+            if (!filePath) {
+                entry.oldPath = fields[++i];
+                entry.path = fields[++i];
+            }
+            current.push(entry);
+        }
+        return stats;
+    }
+
+    public async amendCommit(): Promise<string> {
+        // Use --no-verify to bypass hooks and --no-edit to keep the previous commit message.
+        await this.execute(['commit', '--no-verify', '--amend', '--no-edit']);
+        // Return the hash of the new (amended) commit.
+        return this.execute(['rev-parse', 'HEAD']);
+    }
+
+    public async getStatus(signal?: AbortSignal): Promise<FileChange[]> {
+        // The working tree is compared with the latest snapshot rather than through `git status`,
+        // since untracked files never take part in its rename detection.
+        // The real index is left alone, so a status that can be cancelled never has to take its lock.
+        const output = await this.withWorkingTreeIndex(signal, options => this.run(['diff', '--name-status', '-M', '-z', 'HEAD'], options));
+        return this.parseNameStatus(output.toString());
     }
 
-    public async getCommits(): Promise<Commit[]> {
+    public async getCommits(...revisions: string[]): Promise<Commit[]> {
         try {
-            // Using a custom format to easily parse the log output, including the parent hash (%P).
             // Commits are listed newest-to-oldest by default. We use --reverse to show oldest first.
-            const format = `%H%x1F%P%x1F%s%x1F%an%x1F%ar`; // hash, parent hashes, subject, author, date
-            const logOutput = await this.execute(`log --reverse --pretty=format:"${format}"`);
+            const logOutput = await this.execute(['log', '--reverse', `--pretty=format:${COMMIT_FORMAT}`, ...(revisions.length > 0 ? revisions : ['HEAD'])]);
             if (!logOutput) {
                 return [];
             }
-            return logOutput.split('\n').map(line => {
-                const [hash, parentHashes, message, author, date] = line.split('\x1F');
-                // A commit can have multiple parents in a merge, but we only care about the first one.
-                const parentHash = parentHashes.split(' ')[0] || null;
-                return { hash, parentHash, message, author, date };
-            });
+            return logOutput.split('\n').map(line => this.parseCommit(line));
         } catch (error) {
             // If the repo is empty (e.g., just initialized), log will fail.
             return [];
         }
     }
 
+    public async getCommit(hash: string): Promise<Commit | null> {
+        // Works for any commit in the object store, including ones no longer reachable from HEAD.
+        try {
+            return this.parseCommit(await this.execute(['log', '-1', `--pretty=format:${COMMIT_FORMAT}`, hash]));
+        } catch (error) {
+            return null;
+        }
+    }
+
+    public async getCommitsBetween(fromHash: string, toHash: string): Promise<string[]> {
+        // Hashes of the commits reachable from `toHash` but not from `fromHash`.
+        const output = await this.execute(['rev-list', `${fromHash}..${toHash}`]);
+        return output ? output.split('\n') : [];
+    }
+
+    private parseCommit(line: string): Commit {
+        const [hash, parentHashes, message, author, date, timestamp] = line.split('\x1F');
+        // A commit can have multiple parents in a merge, but we only care about the first one.
+        const parentHash = parentHashes.split(' ')[0] || null;
+        return { hash, parentHash, message, author, date, timestamp: parseInt(timestamp, 10) * 1000 };
+    }
+
+    public async getCommitHashesForPath(filePath: string): Promise<string[]> {
+        // Every commit on any timeline that changed the file, compared to its real parent.
+        const output = await this.execute(['log', '--branches', '--format=%H', '--', filePath]);
+        return output ? output.split('\n') : [];
+    }
+
+    public async isAncestor(ancestorHash: string, hash: string): Promise<boolean> {
+        try {
+            // merge-base exits with 1 (a GitError) when it is not an ancestor.
+            await this.execute(['merge-base', '--is-ancestor', ancestorHash, hash]);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
     public async getChangedFiles(hash: string): Promise<FileChange[]> {
         // Use `git show` which works for any commit, including the initial one.
-        const diffOutput = await this.execute(`show --name-status --pretty="" ${hash}`);
-        if (!diffOutput) {
-            return [];
-        }
+        const diffOutput = (await this.run(['show', '--name-status', '-z', '--pretty=', hash])).toString();
+        return this.parseNameStatus(diffOutput);
+    }
 
-        const changes: FileChange[] = [];
-        const lines = diffOutput.split('\n').filter(line => line.trim());
+    public async getDiffFiles(fromHash: string, toHash: string): Promise<FileChange[]> {
+        // Compares two arbitrary commits, regardless of how far apart they are in the history.
+        const diffOutput = (await this.run(['diff', '--name-status', '-z', fromHash, toHash])).toString();
+        return this.parseNameStatus(diffOutput);
+    }
+
+    private parseNameStatus(diffOutput: string): FileChange[] {
+        // With -z, each change is its status followed by one path, or two for renames and copies.
+        const fields = diffOutput.split('\0');
 
-        for (const line of lines) {
-            const parts = line.split('\t');
-            const statusChar = parts[0].charAt(0);
+        const changes: FileChange[] = [];
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+            const statusChar = fields[i].charAt(0);
+            const filePath = fields[i + 1];
 
-            if (statusChar === 'R' || statusChar === 'C') {
-                // Treat rename/copy as delete of old path + add of new path
-                changes.push({ status: 'D', path: parts[1] });
-                changes.push({ status: 'A', path: parts[2] });
+            if (statusChar === 'R') {
+                changes.push({ status: 'R', oldPath: filePath, path: fields[i + 2] });
+                i++;
+            } else if (statusChar === 'C') {
+                // A copy leaves the original untouched, so it is just a new file.
+                changes.push({ status: 'A', path: fields[i + 2] });
+                i++;
             } else if (statusChar === 'A') {
-                changes.push({ status: 'A', path: parts[1] });
+                changes.push({ status: 'A', path: filePath });
             } else if (statusChar === 'D') {
-                changes.push({ status: 'D', path: parts[1] });
+                changes.push({ status: 'D', path: filePath });
             } else { // M (Modified), T (Type change), etc. are all treated as Modified
-                changes.push({ status: 'M', path: parts[1] });
+                changes.push({ status: 'M', path: filePath });
             }
         }
         return changes;
     }
-    
-    public async show(hash: string, filePath: string): Promise<string> {
+
+    public async show(hash: string, filePath: string): Promise<Buffer | null> {
         try {
-            return await this.execute(`show ${hash}:"${filePath.replace(/"/g, '\\"')}"`);
+            // File content is returned untouched: no decoding and no trimming of trailing newlines.
+            return await this.run(['show', `${hash}:${filePath}`]);
         } catch (e) {
             // If `git show` fails, it's likely because the file didn't exist in that commit (e.g., added later or deleted before).
-            return '';
+            return null;
         }
     }
 
-    public async restore(hash: string): Promise<void> {
+    public async restore(hash: string, skippedPaths: string[] = []): Promise<void> {
         // This command is the key to non-destructive restores.
         // It updates the working directory to match the commit, but DOES NOT move HEAD.
-        await this.execute(`restore --source=${hash} --worktree -- .`);
+        if (skippedPaths.length > 0) {
+            // Skipped files are left exactly as they are in the working tree.
+            const pathspecs = ['.', ...skippedPaths.map(p => `:(exclude,literal)${p}`)];
+            await this.execute(['restore', `--source=${hash}`, '--worktree', '--pathspec-from-file=-', '--pathspec-file-nul'], { input: pathspecs.join('\0') });
+        } else {
+            await this.execute(['restore', `--source=${hash}`, '--worktree', '--', '.']);
+        }
+    }
+
+    public async restorePaths(hash: string, filePaths: string[]): Promise<void> {
+        // Same as restore, but scoped to the given paths. Every path must exist in the source commit.
+        // The paths are passed through stdin as literal pathspecs, since a folder can hold far too many for a command line.
+        await this.execute(
+            ['restore', `--source=${hash}`, '--worktree', '--pathspec-from-file=-', '--pathspec-file-nul'],
+            { input: filePaths.map(p => `:(literal)${p}`).join('\0') }
+        );
     }
 
     public async getTrackedFiles(hash: string): Promise<string[]> {
         // ls-tree is a reliable, low-level way to get a flat list of all files in a commit.
-        const output = await this.execute(`ls-tree -r --name-only ${hash}`);
-        if (!output) {
-            return [];
-        }
-        return output.split(/\r?\n/).filter(line => line.length > 0);
+        // -z keeps git from quoting paths with unusual characters, which would no longer match as pathspecs.
+        const output = (await this.run(['ls-tree', '-r', '-z', '--name-only', hash])).toString();
+        return output.split('\0').filter(file => file.length > 0);
     }
 
     public async discard(filePath: string): Promise<void> {
         // Discard changes in the working tree for a specific file.
-        await this.execute(`restore -- "${filePath.replace(/"/g, '\\"')}"`);
+        await this.execute(['restore', '--', filePath]);
     }
 
     public async discardAll(): Promise<void> {
         // Discard all changes in the working tree for tracked files.
-        await this.execute(`restore .`);
+        await this.execute(['restore', '.']);
     }
 
     public async resetHead(hash: string): Promise<void> {
         // --soft moves HEAD but doesn't touch the index file or the working tree, which is exactly what we need.
         // The user's changes in the working directory are preserved and will be compared against the new HEAD.
-        await this.execute(`reset --soft ${hash}`);
+        await this.execute(['reset', '--soft', hash]);
     }
 
     public async getHeadHash(): Promise<string> {
         // We just need the hash of what HEAD points to.
-        return this.execute('rev-parse HEAD');
+        return this.execute(['rev-parse', 'HEAD']);
+    }
+
+    public async captureWorkingTree(message: string, skippedPaths: string[] = []): Promise<string> {
+        // Build the commit from a throwaway index so the real index, HEAD and working tree are never touched.
+        // Seeding it with a copy of the real index lets git reuse its stat cache instead of rehashing every file.
+        const indexFile = path.join(this.gitDir, `capture-${++throwawayIndexCount}.index`);
+        const realIndex = path.join(this.gitDir, 'index');
+        if (fs.existsSync(realIndex)) {
+            fs.copyFileSync(realIndex, indexFile);
+        }
+        const options: RunOptions = { env: { GIT_INDEX_FILE: indexFile } };
+
+        try {
+            // Skipped files keep whatever the real index has for them, i.e. their content in the latest snapshot.
+            await this.addAll(skippedPaths, options);
+            const tree = await this.execute(['write-tree'], options);
+            // The commit is created without a parent so it never keeps old snapshot history reachable.
+            return await this.execute(['commit-tree', tree, '-m', message]);
+        } finally {
+            fs.rmSync(indexFile, { force: true });
+        }
+    }
+
+    // --- History Rewriting Plumbing ---
+    // These commands build commits directly from trees, so history can be rewritten without ever touching the working tree.
+
+    public async getTreeHash(hash: string): Promise<string> {
+        return this.execute(['rev-parse', `${hash}^{tree}`]);
+    }
+
+    public async getTreeEntry(hash: string, filePath: string): Promise<TreeEntry | null> {
+        const output = await this.execute(['ls-tree', hash, '--', filePath]);
+        if (!output) {
+            return null;
+        }
+        // Format: "<mode> <type> <object>\t<path>"
+        const [mode, , blob] = output.split('\t')[0].split(' ');
+        return { mode, blob };
+    }
+
+    public async hashWorkspaceFile(filePath: string): Promise<TreeEntry | null> {
+        const fullPath = path.join(this.workTree, filePath);
+        if (!fs.existsSync(fullPath)) {
+            return null;
+        }
+        const isExecutable = (fs.statSync(fullPath).mode & 0o111) !== 0;
+        // hash-object resolves paths against the process's cwd, so the file is passed by its full path.
+        // --path still lets git apply the attributes of the file's path inside the work tree.
+        const blob = await this.execute(['hash-object', '-w', `--path=${filePath}`, '--', fullPath]);
+        return { mode: isExecutable ? '100755' : '100644', blob };
+    }
+
+    public async editTree(baseHash: string, edits: Map<string, TreeEntry | null>): Promise<string> {
+        // A throwaway index holds the base tree while it is edited; a null entry removes the file.
+        const indexFile = path.join(this.gitDir, `rewrite-${++throwawayIndexCount}.index`);
+        const options: RunOptions = { env: { GIT_INDEX_FILE: indexFile } };
+
+        try {
+            await this.execute(['read-tree', baseHash], options);
+            for (const [filePath, entry] of edits) {
+                if (entry) {
+                    await this.execute(['update-index', '--add', '--cacheinfo', `${entry.mode},${entry.blob},${filePath}`], options);
+                } else {
+                    await this.execute(['update-index', '--force-remove', '--', filePath], options);
+                }
+            }
+            return await this.execute(['write-tree'], options);
+        } finally {
+            fs.rmSync(indexFile, { force: true });
+        }
+    }
+
+    public async getCommitDetails(hash: string): Promise<CommitDetails> {
+        const output = await this.execute(['log', '-1', '--date=raw', '--format=%ad%x1F%B', hash]);
+        const [authorDate, message] = output.split('\x1F');
+        return { authorDate, message };
+    }
+
+    public async commitTree(tree: string, parentHash: string | null, details: CommitDetails): Promise<string> {
+        // Keeping the original dates means a rewritten snapshot still shows when it was actually taken.
+        const options: RunOptions = {
+            env: { GIT_AUTHOR_DATE: details.authorDate, GIT_COMMITTER_DATE: details.authorDate }
+        };
+        const parent = parentHash ? ['-p', parentHash] : [];
+        return this.execute(['commit-tree', tree, ...parent, '-m', details.message], options);
+    }
+
+    public async resetPaths(filePaths: string[]): Promise<void> {
+        // Points the index entries for these paths back at HEAD, leaving the working tree alone.
+        // Like restorePaths, the paths go through stdin as literal pathspecs, however many there are.
+        await this.execute(
+            ['reset', '-q', 'HEAD', '--pathspec-from-file=-', '--pathspec-file-nul'],
+            { input: filePaths.map(p => `:(literal)${p}`).join('\0') }
+        );
+    }
+
+    public async pruneUnreachable(): Promise<void> {
+        // The reflog keeps every old HEAD alive, so it has to be emptied before gc can drop rewritten commits.
+        await this.execute(['reflog', 'expire', '--expire=now', '--all']);
+        await this.execute(['gc', '--prune=now', '--quiet']);
+    }
+
+    // --- Branches ---
+
+    public async getBranches(): Promise<{ name: string; hash: string }[]> {
+        const refs = await this.getRefs('refs/heads/');
+        return refs.map(ref => ({ name: ref.name.substring('refs/heads/'.length), hash: ref.hash }));
+    }
+
+    public async getRefs(prefix: string): Promise<{ name: string; hash: string }[]> {
+        const output = await this.execute(['for-each-ref', '--format=%(refname)%1F%(objectname)', prefix]);
+        if (!output) {
+            return [];
+        }
+        return output.split('\n').map(line => {
+            const [name, hash] = line.split('\x1F');
+            return { name, hash };
+        });
+    }
+
+    public async getCurrentBranch(): Promise<string> {
+        return this.execute(['symbolic-ref', '--short', 'HEAD']);
+    }
+
+    public async getBranchesContaining(hash: string): Promise<string[]> {
+        const output = await this.execute(['branch', '--format=%(refname:short)', '--contains', hash]);
+        return output ? output.split('\n') : [];
+    }
+
+    public async createBranch(name: string, hash: string): Promise<void> {
+        await this.execute(['branch', name, hash]);
+    }
+
+    public async deleteBranch(name: string): Promise<void> {
+        await this.execute(['branch', '-D', name]);
+    }
+
+    public async switchBranch(name: string): Promise<void> {
+        // Only HEAD and the index move to the branch; the working tree is left exactly as it is, like restore.
+        await this.execute(['symbolic-ref', 'HEAD', `refs/heads/${name}`]);
+        await this.execute(['reset', '-q']);
+    }
+
+    // --- Bundles ---
+
+    public async createBundle(bundlePath: string, refPatterns: string[]): Promise<void> {
+        // A bundle is a single file holding the commits and objects reachable from the given refs.
+        await this.execute(['bundle', 'create', bundlePath, ...refPatterns.map(pattern => `--glob=${pattern}`)]);
+    }
+
+    public async fetchBundle(bundlePath: string, refspecs: string[]): Promise<void> {
+        await this.execute(['fetch', '--quiet', '--no-tags', bundlePath, ...refspecs]);
+    }
+
+    // --- Search ---
+
+    public async grep(hashes: string[], pattern: string, options: GrepOptions): Promise<GrepMatch[]> {
+        const caseFlags = options.matchCase ? [] : ['-i'];
+        if (options.isRegex && !isPcreUnavailable) {
+            // Perl-compatible regexes understand what the search box offers, e.g. \d, \w and lazy quantifiers,
+            // and match what JavaScript highlights afterwards.
+            try {
+                return await this.grepBatches(hashes, pattern, ['-P', ...caseFlags]);
+            } catch (error) {
+                if (!(error instanceof GitError && /USE_LIBPCRE|Perl-compatible/.test(error.stderr))) {
+                    throw error;
+                }
+                isPcreUnavailable = true;
+            }
+        }
+        // Without PCRE, git's extended regexes are the closest there is.
+        return this.grepBatches(hashes, pattern, [options.isRegex ? '-E' : '-F', ...caseFlags]);
+    }
+
+    private async grepBatches(hashes: string[], pattern: string, flags: string[]): Promise<GrepMatch[]> {
+        // The pattern is read from stdin, so git never mistakes it for an option, whatever it starts with.
+        const matches: GrepMatch[] = [];
+        for (let i = 0; i < hashes.length; i += GREP_BATCH_SIZE) {
+            const batch = hashes.slice(i, i + GREP_BATCH_SIZE);
+            // Binary files are skipped, and exit code 1 just means nothing was found.
+            const output = await this.execute(
+                ['grep', '-z', '-n', '--column', '-I', '--no-color', ...flags, '-f', '-', ...batch, '--'],
+                { input: pattern, acceptedExitCodes: [1] }
+            );
+            for (const line of output.split('\n')) {
+                // Each line is "<hash>:<path>\0<line>\0<column>\0<text>"; NULs keep unusual file names intact.
+                const [location, lineNumber, column, ...text] = line.split('\0');
+                const separator = location.indexOf(':');
+                if (separator === -1 || text.length === 0) {
+                    continue;
+                }
+                matches.push({
+                    hash: location.substring(0, separator),
+                    path: location.substring(separator + 1),
+                    line: parseInt(lineNumber, 10),
+                    column: parseInt(column, 10),
+                    text: text.join('\0'),
+                });
+            }
+        }
+        return matches;
+    }
+
+    public async updateRef(ref: string, hash: string): Promise<void> {
+        await this.execute(['update-ref', ref, hash]);
+    }
+
+    public async deleteRef(ref: string): Promise<void> {
+        try {
+            await this.execute(['update-ref', '-d', ref]);
+        } catch (e) {
+            // The ref is already gone, which is the state we wanted.
+        }
     }
 }
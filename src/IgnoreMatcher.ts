@@ -0,0 +1,98 @@
+interface IgnorePattern {
+    regex: RegExp;
+    isNegated: boolean;
+    isDirectoryOnly: boolean;
+}
+
+/**
+ * Converts one line of .gitignore syntax into a regular expression for a path relative to the root.
+ * Returns null for blank lines and comments.
+ */
+function parseIgnorePattern(line: string): IgnorePattern | null {
+    // Trailing spaces are ignored unless they are escaped.
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+        return null;
+    }
+
+    const isNegated = pattern.startsWith('!');
+    if (isNegated) {
+        pattern = pattern.substring(1);
+    }
+    const isDirectoryOnly = pattern.endsWith('/');
+    if (isDirectoryOnly) {
+        pattern = pattern.slice(0, -1);
+    }
+    // A slash anywhere but at the end anchors the pattern to the root; otherwise it matches a name at any depth.
+    const isAnchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (pattern.startsWith('**/', i) && (i === 0 || pattern[i - 1] === '/')) {
+            source += '(?:.*/)?';
+            i += 2;
+        } else if (pattern.startsWith('**', i) && i + 2 === pattern.length && pattern[i - 1] === '/') {
+            source += '.*';
+            i += 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 2);
+            const body = pattern.substring(i + 1, end);
+            // Escapes and named classes like [:alpha:] inside a class are rare enough not to be worth supporting.
+            if (end === -1 || /[\\[]/.test(body)) {
+                throw new Error(`Unsupported character class in '${line}'.`);
+            }
+            source += `[${body.replace(/^!/, '^')}]`;
+            i = end;
+        } else if (char === '\\' && i + 1 < pattern.length) {
+            source += pattern[++i].replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+        }
+    }
+
+    // Negated patterns match case-insensitively, so a file is never dropped when git, ignoring case, would include it.
+    const prefix = isAnchored ? '^' : '^(?:.*/)?';
+    return { regex: new RegExp(`${prefix}${source}$`, isNegated ? 'i' : ''), isNegated, isDirectoryOnly };
+}
+
+/**
+ * Builds a quick check of whether a path, relative to the root and with forward slashes, is excluded
+ * by the given .gitignore patterns. It is only used to skip work, so it errs on the side of "not excluded":
+ * a pattern it can't understand disables it entirely.
+ */
+export function createIgnoreMatcher(lines: string[]): (relativePath: string) => boolean {
+    let patterns: IgnorePattern[];
+    try {
+        patterns = lines.map(parseIgnorePattern).filter((pattern): pattern is IgnorePattern => pattern !== null);
+    } catch (e) {
+        return () => false;
+    }
+
+    // As in git, the last matching pattern decides.
+    const isMatch = (candidate: string, isDirectory: boolean) => {
+        let isIgnored = false;
+        for (const pattern of patterns) {
+            if ((isDirectory || !pattern.isDirectoryOnly) && pattern.regex.test(candidate)) {
+                isIgnored = !pattern.isNegated;
+            }
+        }
+        return isIgnored;
+    };
+
+    return (relativePath: string) => {
+        const segments = relativePath.split('/').filter(segment => segment.length > 0);
+        // A file inside an excluded folder can't be included again, so the folders are checked first.
+        for (let i = 1; i < segments.length; i++) {
+            if (isMatch(segments.slice(0, i).join('/'), true)) {
+                return true;
+            }
+        }
+        return segments.length > 0 && isMatch(segments.join('/'), false);
+    };
+}
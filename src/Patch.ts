@@ -0,0 +1,225 @@
+export interface Hunk {
+    oldStart: number;
+    oldCount: number;
+    newStart: number;
+    newCount: number;
+    removed: string[]; // Raw patch lines, including the leading '-'.
+    added: string[];   // Raw patch lines, including the leading '+'.
+    // "\ No newline at end of file" markers, keyed by the side they belong to.
+    oldNoNewline: boolean;
+    newNoNewline: boolean;
+}
+
+export interface FilePatch {
+    header: string[];
+    hunks: Hunk[];
+}
+
+// A 1-based, inclusive range of lines in the new (workspace) version of a file.
+export interface LineRange {
+    start: number;
+    end: number;
+    // An empty selection (just a cursor) selects the whole hunk under it.
+    isEmpty: boolean;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses the output of `git diff -U0` for a single file.
+ * Zero context lines means every hunk is a plain run of removals followed by a run of additions.
+ */
+export function parseFilePatch(diffOutput: string): FilePatch {
+    const header: string[] = [];
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+    let lastSide: 'old' | 'new' = 'old';
+
+    for (const line of diffOutput.split('\n')) {
+        const match = HUNK_HEADER.exec(line);
+        if (match) {
+            current = {
+                oldStart: parseInt(match[1], 10),
+                oldCount: match[2] === undefined ? 1 : parseInt(match[2], 10),
+                newStart: parseInt(match[3], 10),
+                newCount: match[4] === undefined ? 1 : parseInt(match[4], 10),
+                removed: [],
+                added: [],
+                oldNoNewline: false,
+                newNoNewline: false,
+            };
+            hunks.push(current);
+        } else if (!current) {
+            header.push(line);
+        } else if (line.startsWith('-')) {
+            current.removed.push(line);
+            lastSide = 'old';
+        } else if (line.startsWith('+')) {
+            current.added.push(line);
+            lastSide = 'new';
+        } else if (line.startsWith('\\')) {
+            if (lastSide === 'old') {
+                current.oldNoNewline = true;
+            } else {
+                current.newNoNewline = true;
+            }
+        }
+    }
+
+    return { header, hunks };
+}
+
+/**
+ * Builds a patch containing only the parts of `filePatch` touched by `ranges`.
+ * Within a partially selected hunk, removed and added lines are paired by position: a selected added line
+ * replaces the removed line at the same position, and removed lines whose replacement isn't selected stay
+ * unchanged as context. Removed lines beyond the added ones go with the hunk's last added line.
+ * Returns null when nothing was selected.
+ */
+export function buildPartialPatch(filePatch: FilePatch, ranges: LineRange[]): string | null {
+    const lines: string[] = [];
+    // How far the new file has drifted from the old one, counting only the hunks we keep.
+    let delta = 0;
+
+    for (const hunk of filePatch.hunks) {
+        // A pure deletion sits between two lines of the new file, so a cursor on either side selects it.
+        const hunkStart = hunk.newStart;
+        const hunkEnd = hunk.newCount > 0 ? hunk.newStart + hunk.newCount - 1 : hunk.newStart + 1;
+        const touching = ranges.filter(range => range.start <= hunkEnd && range.end >= hunkStart);
+        if (touching.length === 0) {
+            continue;
+        }
+
+        const wholeHunk = touching.some(range => range.isEmpty) || hunk.added.length === 0;
+        const isSelected = (index: number) => wholeHunk || touching.some(range => {
+            const lineNumber = hunk.newStart + index;
+            return lineNumber >= range.start && lineNumber <= range.end;
+        });
+        const removesExtraLines = hunk.added.length === 0 || isSelected(hunk.added.length - 1);
+
+        // The hunk as runs of changed lines between the lines that stay unchanged, each run listing its removed
+        // lines before its added ones, like git does.
+        const body: string[] = [];
+        let pendingRemoved: string[] = [];
+        let pendingAdded: string[] = [];
+        let removedCount = 0;
+        let addedCount = 0;
+        let contextCount = 0;
+        let isOldLastLineRemoved = false;
+        const flush = () => {
+            body.push(...pendingRemoved);
+            if (hunk.oldNoNewline && isOldLastLineRemoved) {
+                body.push('\\ No newline at end of file');
+                isOldLastLineRemoved = false;
+            }
+            body.push(...pendingAdded);
+            pendingRemoved = [];
+            pendingAdded = [];
+        };
+        for (let i = 0; i < Math.max(hunk.removed.length, hunk.added.length); i++) {
+            const isAddedSelected = i < hunk.added.length && isSelected(i);
+            if (i < hunk.removed.length) {
+                const removed = hunk.removed[i];
+                const isLastOldLine = i === hunk.removed.length - 1;
+                const isRemoved = i < hunk.added.length ? isAddedSelected : removesExtraLines;
+                // An unterminated last line can't stay as it is when lines are added after it, since it gains a newline.
+                const mustChange = isLastOldLine && hunk.oldNoNewline && hunk.added.some((_, index) => index > i && isSelected(index));
+                if (isRemoved || mustChange) {
+                    pendingRemoved.push(removed);
+                    isOldLastLineRemoved = isLastOldLine;
+                    removedCount++;
+                    if (!isRemoved) {
+                        pendingAdded.push(`+${removed.substring(1)}`);
+                        addedCount++;
+                    }
+                } else {
+                    flush();
+                    body.push(` ${removed.substring(1)}`);
+                    if (isLastOldLine && hunk.oldNoNewline) {
+                        body.push('\\ No newline at end of file');
+                    }
+                    contextCount++;
+                }
+            }
+            if (isAddedSelected) {
+                pendingAdded.push(hunk.added[i]);
+                addedCount++;
+            }
+        }
+        flush();
+        if (removedCount === 0 && addedCount === 0) {
+            continue;
+        }
+        // The marker only applies if the last line of the new file is actually part of this patch.
+        if (hunk.newNoNewline && hunk.added.length > 0 && isSelected(hunk.added.length - 1)) {
+            body.push('\\ No newline at end of file');
+        }
+
+        // In the unified format a zero-length side gives the line *before* the change rather than the first line of it.
+        const newCount = contextCount + addedCount;
+        const firstOldLine = hunk.oldCount > 0 ? hunk.oldStart : hunk.oldStart + 1;
+        const firstNewLine = firstOldLine + delta;
+        const newStart = newCount > 0 ? firstNewLine : firstNewLine - 1;
+        lines.push(`@@ -${hunk.oldStart},${hunk.oldCount} +${newStart},${newCount} @@`);
+        lines.push(...body);
+
+        delta += addedCount - removedCount;
+    }
+
+    if (lines.length === 0) {
+        return null;
+    }
+    return [...filePatch.header, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Splits a patch with several files into one patch per file, so each file can be applied on its own.
+ * Understands both git's "diff --git" format and plain unified diffs.
+ */
+export function splitPatchByFile(patch: Buffer): { path: string; patch: Buffer }[] {
+    // The patch stays raw bytes, since the files' lines can be in any encoding.
+    // Lines keep their terminators, since binary blocks depend on the empty line that ends them.
+    const lines: Buffer[] = [];
+    for (let start = 0; start < patch.length;) {
+        const end = patch.indexOf('\n', start);
+        const next = end === -1 ? patch.length : end + 1;
+        lines.push(patch.subarray(start, next));
+        start = next;
+    }
+    const startsWith = (line: Buffer | undefined, prefix: string) => !!line && line.subarray(0, prefix.length).toString('latin1') === prefix;
+    const isGitFormat = lines.some(line => startsWith(line, 'diff --git '));
+    const startsFile = (index: number) => isGitFormat
+        ? startsWith(lines[index], 'diff --git ')
+        : startsWith(lines[index], '--- ') && startsWith(lines[index + 1], '+++ ');
+
+    // Anything before the first file (e.g. the header of a mailed patch) is dropped.
+    const files: Buffer[][] = [];
+    lines.forEach((line, index) => {
+        if (startsFile(index)) {
+            files.push([]);
+        }
+        files[files.length - 1]?.push(line);
+    });
+
+    return files.map(fileLines => {
+        const filePatch = Buffer.concat(fileLines);
+        const terminated = filePatch[filePatch.length - 1] === 0x0A ? filePatch : Buffer.concat([filePatch, Buffer.from('\n')]);
+        return { path: getPatchPath(terminated.toString()), patch: terminated };
+    });
+}
+
+function getPatchPath(filePatch: string): string {
+    // The new path is what ends up in the workspace; a deleted file only has the old one.
+    const stripPrefix = (value: string) => value.replace(/\t.*$/, '').replace(/^[ab]\//, '');
+    const newPath = /^\+\+\+ (.*)$/m.exec(filePatch)?.[1];
+    if (newPath && newPath !== '/dev/null') {
+        return stripPrefix(newPath);
+    }
+    const oldPath = /^--- (.*)$/m.exec(filePatch)?.[1];
+    if (oldPath && oldPath !== '/dev/null') {
+        return stripPrefix(oldPath);
+    }
+    // Binary changes and pure renames have no ---/+++ lines.
+    const header = /^diff --git a\/(.*) b\/(.*)$/m.exec(filePatch);
+    return header ? header[2] : 'unknown file';
+}
@@ -1,26 +1,84 @@
 import * as vscode from 'vscode';
-import { Git } from './Git';
+import { SnapshotTreeProvider } from './SnapshotTreeProvider';
 
-export class ReadonlyContentProvider implements vscode.TextDocumentContentProvider {
-    constructor(private git: Git) {}
+export class ReadonlyContentProvider implements vscode.FileSystemProvider {
+    // Snapshot content never changes, so there is nothing to report.
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
 
-    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    // VS Code stats a file right before reading it, so the last snapshot version read is kept for the read that follows.
+    private lastRead: { uri: string; content: Uint8Array } | null = null;
+
+    constructor(private treeProvider: SnapshotTreeProvider) {}
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
         // The file path is the URI path, and the version is in the query.
         const query = new URLSearchParams(uri.query);
         const commitHash = query.get('commit');
         const filePath = uri.path.substring(1); // Remove leading '/'
+        // The authority identifies which workspace folder's shadow repo holds the content.
+        const provider = this.treeProvider.getProviderById(uri.authority);
 
-        if (!commitHash || commitHash === 'none' || !filePath) {
-            // If any component is missing, or commit is 'none', return empty content.
-            return '';
+        if (!provider || !commitHash || !filePath) {
+            // If any component is missing, return empty content.
+            return new Uint8Array();
+        }
+
+        if (this.lastRead?.uri === uri.toString()) {
+            return this.lastRead.content;
         }
 
         try {
-            return await this.git.show(commitHash, filePath);
+            if (query.get('view') === 'summary') {
+                return Buffer.from(await provider.getFileSummary(filePath, commitHash));
+            }
+            // A file missing from that version (e.g. added later or deleted before) is shown as empty.
+            const content = await provider.getFileContent(filePath, commitHash) || new Uint8Array();
+            // The workspace version can change at any time; a snapshot version never does.
+            if (commitHash !== 'workspace') {
+                this.lastRead = { uri: uri.toString(), content };
+            }
+            return content;
         } catch (error: any) {
             console.error(`Failed to get content for ${filePath} at ${commitHash}: ${error.message}`);
-            // Return empty string if git show fails (e.g., file not in commit)
-            return '';
+            return new Uint8Array();
         }
     }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const content = await this.readFile(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: 0,
+            mtime: 0,
+            size: content.length,
+            permissions: vscode.FilePermission.Readonly
+        };
+    }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { });
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    // Snapshots can only be changed through the extension's own commands.
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    writeFile(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
 }
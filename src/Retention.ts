@@ -0,0 +1,70 @@
+/**
+ * Which snapshots to keep as the history grows, e.g. the last 10, plus one per hour for a day and one per day for a month.
+ * A snapshot is kept if any rule keeps it; 0 turns a rule off.
+ */
+export interface RetentionPolicy {
+    keepLast: number;
+    hourlyForHours: number;
+    dailyForDays: number;
+    weeklyForWeeks: number;
+}
+
+export interface RetainableSnapshot {
+    hash: string;
+    timestamp: number;
+    isProtected: boolean; // Pinned snapshots and the like are never pruned.
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Periods are local, like the dates shown in the tree, and a week starts on Monday.
+function getHourKey(time: number): string {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}-${date.getHours()}`;
+}
+
+function getDayKey(time: number): string {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+function getWeekKey(time: number): string {
+    const date = new Date(time);
+    date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+    return getDayKey(date.getTime());
+}
+
+export function hasRetentionRules(policy: RetentionPolicy): boolean {
+    return policy.keepLast > 0 || policy.hourlyForHours > 0 || policy.dailyForDays > 0 || policy.weeklyForWeeks > 0;
+}
+
+/**
+ * Returns the hashes of the snapshots the policy doesn't keep, given the snapshots of one timeline, newest first.
+ * Within each period, the newest snapshot is the one that is kept. The newest snapshot of all is kept whatever
+ * the rules say, even when it is older than every window, so the timeline never ends up empty.
+ */
+export function selectSnapshotsToPrune(snapshots: RetainableSnapshot[], policy: RetentionPolicy, now: number = Date.now()): string[] {
+    if (!hasRetentionRules(policy)) {
+        return [];
+    }
+
+    const kept = new Set(snapshots.slice(0, Math.max(1, policy.keepLast)).map(snapshot => snapshot.hash));
+    const periods: { window: number; getKey: (time: number) => string }[] = [
+        { window: policy.hourlyForHours * HOUR, getKey: getHourKey },
+        { window: policy.dailyForDays * DAY, getKey: getDayKey },
+        { window: policy.weeklyForWeeks * 7 * DAY, getKey: getWeekKey },
+    ];
+    for (const { window, getKey } of periods) {
+        const seenKeys = new Set<string>();
+        for (const snapshot of snapshots) {
+            const key = getKey(snapshot.timestamp);
+            if (now - snapshot.timestamp < window && !seenKeys.has(key)) {
+                seenKeys.add(key);
+                kept.add(snapshot.hash);
+            }
+        }
+    }
+
+    return snapshots.filter(snapshot => !snapshot.isProtected && !kept.has(snapshot.hash)).map(snapshot => snapshot.hash);
+}
@@ -1,52 +1,133 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { Commit, FileChange } from './Git';
+import { Commit, FileChange, FileStatus, GrepMatch, LineStats } from './Git';
+import { AutoSnapshotTrigger } from './SnapshotProvider';
+
+const AUTO_TRIGGER_DESCRIPTIONS: Record<AutoSnapshotTrigger, string> = {
+    save: 'after repeated saves',
+    interval: 'on the snapshot interval',
+    idle: 'after an idle period',
+};
+
+// Line counts like "+120 −34"; binary files add nothing to them.
+function formatLineCounts(stats: LineStats[]): string {
+    const insertions = stats.reduce((sum, file) => sum + file.insertions, 0);
+    const deletions = stats.reduce((sum, file) => sum + file.deletions, 0);
+    return `+${insertions} −${deletions}`;
+}
+
+function formatFileLineStats(stats: LineStats): string {
+    return stats.isBinary ? 'binary' : formatLineCounts([stats]);
+}
+
+/**
+ * The label and description of a changed file. A rename is a single "old → new" entry,
+ * which only repeats the folders when the file moved to another one.
+ */
+function describeFileChange(fileChange: FileChange): { label: string; description: string } {
+    const filename = path.basename(fileChange.path);
+    const dir = path.dirname(fileChange.path);
+    if (fileChange.oldPath && path.dirname(fileChange.oldPath) !== dir) {
+        return { label: `${fileChange.oldPath} → ${fileChange.path}`, description: '' };
+    }
+    const label = fileChange.oldPath ? `${path.basename(fileChange.oldPath)} → ${filename}` : filename;
+    return { label, description: dir === '.' ? '' : dir };
+}
 
 export class Snapshot extends vscode.TreeItem {
     constructor(
         public readonly commit: Commit,
+        public readonly workspaceRoot: string,
         public readonly customName?: string,
         public readonly isRestored: boolean = false,
         public readonly isNew: boolean = false,
-        collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.Collapsed
+        public readonly autoTrigger?: AutoSnapshotTrigger,
+        collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.Collapsed,
+        public readonly note?: string,
+        public readonly tags: string[] = [],
+        skippedFiles: string[] = [],
+        lineStats?: LineStats[], // Compared with the snapshot's visible parent.
+        public readonly isPinned: boolean = false,
+        separatorName?: string
     ) {
         // Use customName if provided, otherwise fall back to commit message
         super(customName || commit.message, collapsibleState);
         this.id = commit.hash;
         // Keep original message in tooltip for reference
         this.tooltip = `Message: ${commit.message}\nAuthor: ${commit.author}\nHash: ${commit.hash}`;
-        this.contextValue = 'snapshot';
+        if (autoTrigger) {
+            this.tooltip += `\nCreated automatically ${AUTO_TRIGGER_DESCRIPTIONS[autoTrigger]}`;
+        }
+        if (skippedFiles.length > 0) {
+            this.tooltip += `\nSkipped ${skippedFiles.length} large file(s): ${skippedFiles.join(', ')}`;
+        }
+        if (isPinned) {
+            this.tooltip += '\nPinned, so retention rules never delete it';
+        } else if (separatorName) {
+            this.tooltip += `\nKept by retention rules, since the separator '${separatorName}' marks it`;
+        }
+        this.contextValue = isPinned ? 'pinnedSnapshot' : 'snapshot';
+
+        // Auto snapshots get their own icon so they stand apart from manual checkpoints,
+        // and snapshots that retention rules always keep stand apart from both.
+        const defaultIcon = isPinned ? 'pinned' : separatorName ? 'milestone' : autoTrigger ? 'watch' : 'device-camera';
+        const autoPrefix = autoTrigger ? '(Auto) ' : '';
 
         if (isRestored) {
-            this.description = '(Restored)';
+            this.description = `${autoPrefix}(Restored)`;
             this.iconPath = new vscode.ThemeIcon('verified-filled');
         } else if (isNew) {
-            this.description = '(New)';
-            this.iconPath = new vscode.ThemeIcon('device-camera');
+            this.description = `${autoPrefix}(New)`;
+            this.iconPath = new vscode.ThemeIcon(defaultIcon);
         } else {
-            this.description = undefined;
-            this.iconPath = new vscode.ThemeIcon('device-camera');
+            this.description = autoTrigger ? '(Auto)' : undefined;
+            this.iconPath = new vscode.ThemeIcon(defaultIcon);
+        }
+
+        if (lineStats && lineStats.length > 0) {
+            const summary = `${formatLineCounts(lineStats)}, ${lineStats.length} ${lineStats.length === 1 ? 'file' : 'files'}`;
+            this.description = this.description ? `${this.description} ${summary}` : summary;
+        }
+        if (tags.length > 0) {
+            const tagList = tags.map(tag => `#${tag}`).join(' ');
+            this.description = this.description ? `${this.description} ${tagList}` : tagList;
+        }
+        // Notes are markdown, so the tooltip switches to markdown as soon as there is something to render.
+        if (note || tags.length > 0) {
+            const tooltip = new vscode.MarkdownString().appendText(this.tooltip);
+            if (tags.length > 0) {
+                tooltip.appendMarkdown(`\n\n${tags.map(tag => `\`#${tag}\``).join(' ')}`);
+            }
+            if (note) {
+                tooltip.appendMarkdown(`\n\n---\n\n${note}`);
+            }
+            this.tooltip = tooltip;
         }
     }
 }
 
 export class SnapshotFile extends vscode.TreeItem {
     public readonly filePath: string;
-    public readonly status: 'A' | 'M' | 'D';
+    public readonly status: FileStatus;
+    public readonly oldPath?: string;
 
     constructor(
         fileChange: FileChange,
         public readonly commitHash: string,
-        workspaceRoot: string,
+        public readonly workspaceRoot: string,
+        lineStats?: LineStats,
     ) {
-        const filename = path.basename(fileChange.path);
-        const dir = path.dirname(fileChange.path);
+        const { label, description } = describeFileChange(fileChange);
 
-        super(filename, vscode.TreeItemCollapsibleState.None);
+        super(label, vscode.TreeItemCollapsibleState.None);
         
         this.filePath = fileChange.path;
         this.status = fileChange.status;
-        this.description = dir === '.' ? '' : dir;
+        this.oldPath = fileChange.oldPath;
+        this.description = lineStats ? [description, formatFileLineStats(lineStats)].filter(part => part).join('  ') : description;
+        if (this.oldPath) {
+            this.tooltip = `Renamed from ${this.oldPath}`;
+        }
         this.contextValue = 'snapshotFile';
 
         // The resourceUri must be a unique, virtual representation of this specific version of the file.
@@ -73,7 +154,8 @@ export class SeparatorItem extends vscode.TreeItem {
 
     constructor(
         label: string, // The custom name of the separator
-        public readonly snapshotId: string // The ID of the snapshot this separator is attached to.
+        public readonly snapshotId: string, // The ID of the snapshot this separator is attached to.
+        public readonly workspaceRoot: string
     ) {
         super(`--------- ${label} ---------`, vscode.TreeItemCollapsibleState.None);
         this.contextValue = 'separator';
@@ -81,8 +163,22 @@ export class SeparatorItem extends vscode.TreeItem {
     }
 }//
 
+export class FolderItem extends vscode.TreeItem {
+    constructor(public readonly workspaceFolder: vscode.WorkspaceFolder) {
+        super(workspaceFolder.name, vscode.TreeItemCollapsibleState.Expanded);
+        this.id = workspaceFolder.uri.toString();
+        this.contextValue = 'workspaceFolder';
+        this.iconPath = new vscode.ThemeIcon('root-folder');
+        this.tooltip = workspaceFolder.uri.fsPath;
+    }
+
+    public get workspaceRoot(): string {
+        return this.workspaceFolder.uri.fsPath;
+    }
+}
+
 export class ChangesItem extends vscode.TreeItem {
-    constructor() {
+    constructor(public readonly workspaceRoot: string) {
         super('Changes', vscode.TreeItemCollapsibleState.Expanded);
         this.contextValue = 'changesContainer';
         this.iconPath = new vscode.ThemeIcon('folder-active');
@@ -91,20 +187,25 @@ export class ChangesItem extends vscode.TreeItem {
 
 export class WorkspaceFileChangeItem extends vscode.TreeItem {
     public readonly filePath: string;
-    public readonly status: 'A' | 'M' | 'D';
+    public readonly status: FileStatus;
+    public readonly oldPath?: string;
 
     constructor(
         fileChange: FileChange,
-        workspaceRoot: string,
+        public readonly workspaceRoot: string,
+        lineStats?: LineStats,
     ) {
-        const filename = path.basename(fileChange.path);
-        const dir = path.dirname(fileChange.path);
+        const { label, description } = describeFileChange(fileChange);
 
-        super(filename, vscode.TreeItemCollapsibleState.None);
+        super(label, vscode.TreeItemCollapsibleState.None);
 
         this.filePath = fileChange.path;
         this.status = fileChange.status;
-        this.description = dir === '.' ? '' : dir;
+        this.oldPath = fileChange.oldPath;
+        this.description = lineStats ? [description, formatFileLineStats(lineStats)].filter(part => part).join('  ') : description;
+        if (this.oldPath) {
+            this.tooltip = `Renamed from ${this.oldPath}`;
+        }
         this.contextValue = 'workspaceFile';
 
         this.resourceUri = vscode.Uri.from({
@@ -119,4 +220,217 @@ export class WorkspaceFileChangeItem extends vscode.TreeItem {
             arguments: [this]
         };
     }
-}
\ No newline at end of file
+}
+
+export class TimelineItem extends vscode.TreeItem {
+    constructor(
+        public readonly branch: string,
+        tipName: string,
+        forkName: string,
+        public readonly commits: Commit[], // Oldest first, only the snapshots the current timeline doesn't have.
+        public readonly workspaceRoot: string
+    ) {
+        super(tipName, vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `timeline:${branch}`;
+        this.description = `Timeline forked from '${forkName}'`;
+        this.tooltip = `An alternate timeline with ${commits.length} snapshot(s), forked from '${forkName}'.\nRestore one of its snapshots to continue working on it.`;
+        this.contextValue = 'timeline';
+        this.iconPath = new vscode.ThemeIcon('git-branch');
+    }
+}
+
+export class FilterItem extends vscode.TreeItem {
+    constructor(query: string) {
+        super(`Filter: ${query}`, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'filter';
+        this.iconPath = new vscode.ThemeIcon('filter');
+        this.tooltip = 'Only snapshots matching this filter are shown.';
+        this.command = {
+            command: 'workspace_snapshots.filterSnapshots',
+            title: 'Filter Snapshots'
+        };
+    }
+}
+
+export class DeletedSnapshotsItem extends vscode.TreeItem {
+    constructor(count: number, public readonly workspaceRoot: string) {
+        super('Deleted Snapshots', vscode.TreeItemCollapsibleState.Collapsed);
+        this.description = `${count}`;
+        this.contextValue = 'deletedSnapshots';
+        this.iconPath = new vscode.ThemeIcon('trash');
+        this.tooltip = 'Deleted snapshots can be undeleted until they are deleted permanently or the storage is compacted.';
+    }
+}
+
+export class DeletedSnapshotItem extends vscode.TreeItem {
+    constructor(
+        public readonly commit: Commit,
+        public readonly name: string,
+        deletedAt: number | undefined, // Unknown for snapshots deleted before deletion times were recorded.
+        public readonly workspaceRoot: string
+    ) {
+        super(name, vscode.TreeItemCollapsibleState.None);
+        // Prefixed so it never collides with the id of a visible snapshot.
+        this.id = `deleted:${commit.hash}`;
+        this.description = deletedAt ? `Deleted ${new Date(deletedAt).toLocaleString()}` : 'Deleted';
+        this.tooltip = `Message: ${commit.message}\nAuthor: ${commit.author}\nHash: ${commit.hash}`;
+        this.contextValue = 'deletedSnapshot';
+        this.iconPath = new vscode.ThemeIcon('history');
+    }
+}
+
+export class ComparisonItem extends vscode.TreeItem {
+    constructor(
+        leftName: string,
+        rightName: string,
+        public readonly workspaceRoot: string
+    ) {
+        super(`Compare: ${leftName} ↔ ${rightName}`, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'comparison';
+        this.iconPath = new vscode.ThemeIcon('compare-changes');
+    }
+}
+
+export class ComparisonFileItem extends vscode.TreeItem {
+    public readonly filePath: string;
+    public readonly status: FileStatus;
+    public readonly oldPath?: string;
+
+    constructor(
+        fileChange: FileChange,
+        public readonly leftHash: string,
+        public readonly rightHash: string | null, // null means the live workspace.
+        public readonly workspaceRoot: string,
+    ) {
+        const { label, description } = describeFileChange(fileChange);
+
+        super(label, vscode.TreeItemCollapsibleState.None);
+
+        this.filePath = fileChange.path;
+        this.status = fileChange.status;
+        this.oldPath = fileChange.oldPath;
+        this.description = description;
+        if (this.oldPath) {
+            this.tooltip = `Renamed from ${this.oldPath}`;
+        }
+        this.contextValue = 'comparisonFile';
+
+        this.resourceUri = vscode.Uri.from({
+            scheme: 'workspace-snapshot',
+            path: `/compare/${this.leftHash}/${this.rightHash || 'workspace'}/${this.filePath}`,
+            query: `status=${this.status}`
+        });
+
+        this.command = {
+            command: 'workspace_snapshots.showComparisonDiff',
+            title: 'Show Comparison Diff',
+            arguments: [this]
+        };
+    }
+}
+
+export class SearchResultsItem extends vscode.TreeItem {
+    constructor(
+        pattern: string,
+        matchCount: number,
+        isTruncated: boolean,
+        public readonly workspaceRoot: string
+    ) {
+        super(`Search: ${pattern}`, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = isTruncated ? `first ${matchCount} results` : `${matchCount} result(s)`;
+        this.contextValue = 'searchResults';
+        this.iconPath = new vscode.ThemeIcon('search');
+    }
+}
+
+export class SearchSnapshotItem extends vscode.TreeItem {
+    constructor(
+        name: string,
+        public readonly matches: GrepMatch[],
+        public readonly workspaceRoot: string
+    ) {
+        super(name, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${matches.length} result(s)`;
+        this.contextValue = 'searchSnapshot';
+        this.iconPath = new vscode.ThemeIcon('device-camera');
+    }
+}
+
+export class SearchFileItem extends vscode.TreeItem {
+    public readonly status = 'M'; // The file exists in the snapshot, which is all restoring it needs to know.
+
+    constructor(
+        public readonly commitHash: string,
+        public readonly filePath: string,
+        public readonly matches: GrepMatch[],
+        public readonly workspaceRoot: string
+    ) {
+        const dir = path.dirname(filePath);
+        super(path.basename(filePath), vscode.TreeItemCollapsibleState.Expanded);
+        this.description = dir === '.' ? '' : dir;
+        this.contextValue = 'searchFile';
+        // Only used for the file icon, so there is no status for the decoration provider.
+        this.resourceUri = vscode.Uri.from({
+            scheme: 'workspace-snapshot',
+            path: `/search/${commitHash}/${filePath}`
+        });
+    }
+}
+
+export class SearchMatchItem extends vscode.TreeItem {
+    constructor(
+        public readonly match: GrepMatch,
+        // Where the match is in the line, in characters; the column git reports is in bytes.
+        public readonly range: [number, number],
+        public readonly workspaceRoot: string
+    ) {
+        // The label drops the line's indentation, so the highlight moves with it.
+        const indent = match.text.length - match.text.trimStart().length;
+        const label = match.text.trim();
+        const start = Math.max(range[0] - indent, 0);
+        const end = Math.min(range[1] - indent, label.length);
+        super({ label, highlights: end > start ? [[start, end]] : [] }, vscode.TreeItemCollapsibleState.None);
+        this.description = `line ${match.line}`;
+        this.tooltip = label;
+        this.contextValue = 'searchMatch';
+        this.command = {
+            command: 'workspace_snapshots.openSearchMatch',
+            title: 'Open Search Result',
+            arguments: [this]
+        };
+    }
+}
+
+export class FileHistoryItem extends vscode.TreeItem {
+    public readonly commitHash: string;
+
+    constructor(
+        commit: Commit,
+        name: string,
+        public readonly filePath: string,
+        public readonly status: 'A' | 'M' | 'D',
+        public readonly workspaceRoot: string,
+        autoTrigger?: AutoSnapshotTrigger
+    ) {
+        super(name, vscode.TreeItemCollapsibleState.None);
+        this.commitHash = commit.hash;
+        this.id = `history:${commit.hash}:${filePath}`;
+        this.description = commit.date;
+        const statusName = status === 'A' ? 'Added' : status === 'D' ? 'Deleted' : 'Modified';
+        this.tooltip = `${statusName} in '${name}'\n${new Date(commit.timestamp).toLocaleString()}`;
+        this.contextValue = 'fileHistoryEntry';
+        this.iconPath = new vscode.ThemeIcon(autoTrigger ? 'watch' : 'device-camera');
+        // Only used by the decoration provider, which shows the status letter.
+        this.resourceUri = vscode.Uri.from({
+            scheme: 'workspace-snapshot',
+            path: `/history/${commit.hash}/${filePath}`,
+            query: `status=${status}`
+        });
+
+        this.command = {
+            command: 'workspace_snapshots.showDiff',
+            title: 'Show Snapshot Diff',
+            arguments: [this]
+        };
+    }
+}
@@ -1,11 +1,11 @@
 import * as vscode from 'vscode';
-import { SnapshotProvider } from './SnapshotProvider';
+import { SnapshotTreeProvider } from './SnapshotTreeProvider';
 
 export class SnapshotFileDecorationProvider implements vscode.FileDecorationProvider {
     private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
     readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
 
-    constructor(private snapshotProvider: SnapshotProvider) {}
+    constructor(private treeProvider: SnapshotTreeProvider) {}
 
     public refresh(): void {
         this._onDidChangeFileDecorations.fire(undefined);
@@ -27,6 +27,8 @@ export class SnapshotFileDecorationProvider implements vscode.FileDecorationProv
                 return new vscode.FileDecoration('M', 'Modified', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
             case 'D':
                 return new vscode.FileDecoration('D', 'Deleted', new vscode.ThemeColor('gitDecoration.deletedResourceForeground'));
+            case 'R':
+                return new vscode.FileDecoration('R', 'Renamed', new vscode.ThemeColor('gitDecoration.renamedResourceForeground'));
             default:
                 return undefined;
         }
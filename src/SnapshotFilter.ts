@@ -0,0 +1,80 @@
+/**
+ * A parsed filter query, e.g. `login tag:wip file:src/auth after:2026-10-01`.
+ * Plain words must appear in the name, note or tags; every prefixed term narrows the result further.
+ */
+export interface SnapshotFilter {
+    query: string;
+    words: string[];
+    tags: string[];
+    files: string[];
+    after?: number;  // Inclusive start of the day, in milliseconds.
+    before?: number; // Exclusive end of the day, in milliseconds.
+}
+
+export interface FilterableSnapshot {
+    name: string;
+    note: string;
+    tags: string[];
+    timestamp: number;
+    getFiles: () => Promise<string[]>; // Only called for file terms, since it needs git.
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function parseDay(value: string): number | undefined {
+    // "2026-10-03" is read as a local day, like the dates shown in the tree.
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+    const time = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime() : Date.parse(value);
+    return isNaN(time) ? undefined : time;
+}
+
+export function parseSnapshotFilter(query: string): SnapshotFilter {
+    const filter: SnapshotFilter = { query: query.trim(), words: [], tags: [], files: [] };
+    for (const term of filter.query.split(/\s+/).filter(term => term.length > 0)) {
+        const [, key, value] = /^(tag|file|after|before):(.+)$/i.exec(term) || [];
+        switch (key?.toLowerCase()) {
+            case 'tag':
+                filter.tags.push(value.replace(/^#/, '').toLowerCase());
+                break;
+            case 'file':
+                filter.files.push(value.toLowerCase());
+                break;
+            case 'after':
+            case 'before': {
+                const day = parseDay(value);
+                if (day === undefined) {
+                    throw new Error(`'${value}' is not a valid date. Use the YYYY-MM-DD format.`);
+                }
+                if (key.toLowerCase() === 'after') {
+                    filter.after = day;
+                } else {
+                    filter.before = day + DAY;
+                }
+                break;
+            }
+            default:
+                filter.words.push(term.toLowerCase());
+        }
+    }
+    return filter;
+}
+
+export async function matchesSnapshotFilter(filter: SnapshotFilter, snapshot: FilterableSnapshot): Promise<boolean> {
+    const tags = snapshot.tags.map(tag => tag.toLowerCase());
+    const text = [snapshot.name, snapshot.note, ...tags].join('\n').toLowerCase();
+
+    if (!filter.words.every(word => text.includes(word))) {
+        return false;
+    }
+    if (!filter.tags.every(tag => tags.includes(tag))) {
+        return false;
+    }
+    if ((filter.after !== undefined && snapshot.timestamp < filter.after) || (filter.before !== undefined && snapshot.timestamp >= filter.before)) {
+        return false;
+    }
+    if (filter.files.length > 0) {
+        const files = (await snapshot.getFiles()).map(file => file.toLowerCase());
+        return filter.files.every(term => files.some(file => file.includes(term)));
+    }
+    return true;
+}
@@ -3,49 +3,171 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as os from 'os';
-import { Commit, FileChange, Git } from './Git';
-import { Snapshot, SnapshotFile, SeparatorItem, ChangesItem, WorkspaceFileChangeItem } from './Snapshot';
+import { ChangeTracker } from './ChangeTracker';
+import { Commit, FileChange, Git, GrepMatch, GrepOptions, isBinaryContent, LineStats, TreeEntry } from './Git';
+import { createIgnoreMatcher } from './IgnoreMatcher';
+import { buildPartialPatch, LineRange, parseFilePatch, splitPatchByFile } from './Patch';
+import { RetentionPolicy, selectSnapshotsToPrune } from './Retention';
+import { matchesSnapshotFilter, SnapshotFilter } from './SnapshotFilter';
+import { Snapshot, SnapshotFile, SeparatorItem, ChangesItem, WorkspaceFileChangeItem, ComparisonItem, ComparisonFileItem, DeletedSnapshotsItem, DeletedSnapshotItem, TimelineItem, SearchResultsItem, SearchSnapshotItem, SearchFileItem, SearchMatchItem, FileHistoryItem } from './Snapshot';
+
+export type TreeItem = Snapshot | SnapshotFile | SeparatorItem | ChangesItem | WorkspaceFileChangeItem | ComparisonItem | ComparisonFileItem | DeletedSnapshotsItem | DeletedSnapshotItem | TimelineItem
+    | SearchResultsItem | SearchSnapshotItem | SearchFileItem | SearchMatchItem;
+
+export type AutoSnapshotTrigger = 'save' | 'interval' | 'idle';
+
+export const NO_CHANGES_MESSAGE = "No changes detected since the last snapshot.";
+export const SNAPSHOT_CANCELLED_MESSAGE = "The snapshot was cancelled.";
+
+const MB = 1024 * 1024;
+
+// A per-project list of exclusions in .gitignore syntax, for files that belong in git but not in snapshots.
+export const SNAPSHOT_IGNORE_FILE = '.snapshotignore';
+
+// A single exclusion pattern and where it comes from, so an excluded file can be explained.
+export interface ExclusionRule {
+    pattern: string;
+    origin: string;
+    filePath?: string; // Rules read from a file, with their 1-based line.
+    line?: number;
+    setting?: string;  // Rules that come from a setting.
+}
+
+// Written into every shadow repo, so a history can still be traced back to its folder after the folder moved.
+export const HISTORY_MARKER_FILE = 'workspace-snapshots.json';
+
+// A hidden ref in the shadow repo that keeps the latest safety checkpoint from being garbage collected.
+const SAFETY_REF = 'refs/workspace-snapshots/safety';
+// Deleting the latest snapshot moves HEAD back past it, so a ref keeps it around until it is undeleted or purged.
+const DELETED_REF_PREFIX = 'refs/workspace-snapshots/deleted/';
+// Imported history is fetched here first, then grafted onto the local history.
+const IMPORT_REF_PREFIX = 'refs/workspace-snapshots/import/';
+
+// Binary files VS Code opens in its own editors (like the image preview), even in a diff.
+const BINARY_EDITOR_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.jpe', '.gif', '.webp', '.bmp', '.ico', '.tga', '.tif', '.tiff', '.avif']);
+
+// Searching a long history for a common word would otherwise flood the tree.
+const MAX_SEARCH_RESULTS = 1000;
+
+// A history archive is this line, a line of JSON metadata and then the raw git bundle.
+const HISTORY_ARCHIVE_HEADER = 'WORKSPACE-SNAPSHOTS-HISTORY 1';
+
+interface HistoryArchiveMetadata {
+    currentBranch: string;
+    names: Record<string, string>;
+    separators: Record<string, string>;
+    deletedIds: string[];
+    deletedAt: Record<string, number>;
+    autoSnapshots: Record<string, AutoSnapshotTrigger>;
+    notes?: Record<string, string>; // Missing in archives exported before notes and tags existed.
+    tags?: Record<string, string[]>;
+    skippedFiles?: Record<string, string[]>;
+    pinned?: string[];
+}
+
+interface Comparison {
+    leftHash: string;
+    rightHash: string | null; // null compares against the live workspace.
+}
+
+interface DiffUris {
+    left: vscode.Uri;
+    right: vscode.Uri;
+    title: string;
+}
+
+interface SearchResults {
+    pattern: string;
+    options: GrepOptions;
+    matches: GrepMatch[];
+    isTruncated: boolean;
+}
+
+interface SafetyCheckpoint {
+    hash: string;
+    operation: string;
+    restoredSnapshotId: string | null;
+    branch?: string; // The timeline that was current, missing for checkpoints saved before timelines existed.
+    skippedPaths?: string[]; // Files over the size limits, whose content the checkpoint doesn't have.
+}
 
-type TreeItem = Snapshot | SnapshotFile | SeparatorItem | ChangesItem | WorkspaceFileChangeItem;
+// A timeline other than the current one: the snapshots it has on top of the current history.
+interface Timeline {
+    branch: string;
+    forkHash: string;
+    commits: Commit[];
+}
 
-export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
+export class SnapshotProvider implements vscode.Disposable {
     private _onDidChangeTreeData = new vscode.EventEmitter<TreeItem | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
+    private _onDidCreateSnapshot = new vscode.EventEmitter<string>();
+    readonly onDidCreateSnapshot = this._onDidCreateSnapshot.event;
+
     public git!: Git;
-    public workspaceRoot!: string;
+    private changeTracker?: ChangeTracker;
+    public readonly workspaceRoot: string;
+    public readonly workspaceId: string;
+    // True when initialization had to create the shadow repo, i.e. this folder has never had snapshots at this path.
+    public isNewHistory = false;
     private shadowRepoPath!: string;
     private snapshotNames: Map<string, string> = new Map();
     private separatorNames: Map<string, string> = new Map();
     private restoredSnapshotId: string | null = null;
     private deletedSnapshotIds: Set<string> = new Set();
+    private deletionTimes: Map<string, number> = new Map();
+    private autoSnapshotTriggers: Map<string, AutoSnapshotTrigger> = new Map();
+    private snapshotNotes: Map<string, string> = new Map();
+    private snapshotTags: Map<string, string[]> = new Map();
+    // Files left out of a snapshot because they were too large.
+    private skippedFiles: Map<string, string[]> = new Map();
+    // Snapshots the retention rules never prune.
+    private pinnedSnapshotIds: Set<string> = new Set();
+    private filter: SnapshotFilter | null = null;
+    // A commit's changed files never change, so they are only looked up once for filtering.
+    private _changedFilesCache: Map<string, string[]> = new Map();
+    // Line counts of each snapshot, valid as long as its visible parent stays the same.
+    private _lineStatsCache: Map<string, { parentHash: string | null; stats: LineStats[] }> = new Map();
+    // The files over the size limits, valid as long as the changes they were measured from and the limits stay the same.
+    private _oversizedFilesCache: { status: Promise<FileChange[]>; limits: string; files: Promise<{ path: string; size: number }[]> } | null = null;
+    private safetyCheckpoint: SafetyCheckpoint | null = null;
+    private compareSelection: string | null = null;
+    private comparison: Comparison | null = null;
+    private search: SearchResults | null = null;
+    private exclusionRules: ExclusionRule[] = [];
     private _commitCache: Map<string, Commit> = new Map();
-    private treeView?: vscode.TreeView<TreeItem>;
     private snapshotToExpand: string | null = null;
 
-    constructor(private context: vscode.ExtensionContext) {}
-
-    public setTreeView(treeView: vscode.TreeView<TreeItem>): void {
-        this.treeView = treeView;
+    constructor(
+        private context: vscode.ExtensionContext,
+        public readonly workspaceFolder: vscode.WorkspaceFolder
+    ) {
+        this.workspaceRoot = workspaceFolder.uri.fsPath;
+        this.workspaceId = this.getWorkspaceId(this.workspaceRoot);
     }
 
     // --- Initialization & Setup ---
 
     public async initialize(): Promise<void> {
-        this.workspaceRoot = this.getWorkspaceRoot();
         this.validateWorkspacePath();
         this.loadMetadata();
 
-        const workspaceId = this.getWorkspaceId(this.workspaceRoot);
-        this.shadowRepoPath = path.join(this.context.globalStorageUri.fsPath, workspaceId);
+        // Each workspace folder gets its own shadow repo, keyed by the folder's path.
+        this.shadowRepoPath = path.join(this.context.globalStorageUri.fsPath, this.workspaceId);
 
         this.git = new Git(this.shadowRepoPath, this.workspaceRoot);
+        this.changeTracker?.dispose();
+        this.changeTracker = new ChangeTracker(this.git);
+        this.changeTracker.onDidChange(() => this.refresh());
 
-        if (!fs.existsSync(path.join(this.shadowRepoPath, 'config'))) {
+        this.isNewHistory = !fs.existsSync(path.join(this.shadowRepoPath, 'config'));
+        if (this.isNewHistory) {
             await this.git.init();
             await this.git.createInitialCommit();
-            vscode.window.showInformationMessage("Initialized new snapshot repository for this workspace.");
+            vscode.window.showInformationMessage(`Initialized new snapshot repository for '${this.workspaceFolder.name}'.`);
         }
+        fs.writeFileSync(path.join(this.shadowRepoPath, HISTORY_MARKER_FILE), JSON.stringify({ workspacePath: this.workspaceRoot }, null, 2));
 
         // Always ensure configuration and exclusions are set, making initialization resilient.
         await this.git.configure();
@@ -53,13 +175,6 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
         await this.refresh();
     }
 
-    private getWorkspaceRoot(): string {
-        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-            throw new Error('No workspace folder is open.');
-        }
-        return vscode.workspace.workspaceFolders[0].uri.fsPath;
-    }
-
     private validateWorkspacePath(): void {
         const homeDir = os.homedir();
         const sensitivePaths = [
@@ -82,17 +197,147 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
 
     // --- Core Functionality ---
 
-    public async createSnapshot(message: string): Promise<void> {
-        await this.git.stageAll();
-        const status = await this.git.getStatus();
-        if (status.length === 0) {
-            throw new Error("No changes detected since the last snapshot.");
+    public async createSnapshot(message: string, autoTrigger?: AutoSnapshotTrigger): Promise<void> {
+        const skippedPaths = await this.checkSnapshotSize(autoTrigger !== undefined);
+        await this.git.stageAll(skippedPaths);
+        // Skipped files still show up as changes, so only what was actually staged counts.
+        if (!await this.git.hasStagedChanges()) {
+            throw new Error(NO_CHANGES_MESSAGE);
+        }
+        const hash = await this.git.commit(message);
+        if (autoTrigger) {
+            this.autoSnapshotTriggers.set(hash, autoTrigger);
+        }
+        if (skippedPaths.length > 0) {
+            this.skippedFiles.set(hash, skippedPaths);
         }
-        await this.git.commit(message);
         
         // Creating a new snapshot invalidates any previously restored state.
         this.restoredSnapshotId = null;
         this.saveMetadata();
+
+        if (vscode.workspace.getConfiguration('workspaceSnapshots.retention').get<boolean>('applyAfterSnapshot', false)) {
+            try {
+                await this.applyRetention();
+            } catch (error: any) {
+                // The snapshot itself was created, so this must not look like that failed.
+                vscode.window.showErrorMessage(`Failed to apply retention rules: ${error.message}`);
+            }
+        }
+        this._onDidCreateSnapshot.fire(hash);
+    }
+
+    // --- Size Limits ---
+
+    private async checkSnapshotSize(isAutomatic: boolean): Promise<string[]> {
+        const oversized = await this.findOversizedFiles();
+        if (oversized.length === 0) {
+            return [];
+        }
+
+        const oversizedPaths = oversized.map(file => file.path);
+        if (isAutomatic) {
+            // Nobody is there to ask, so the files are only left out this time.
+            return oversizedPaths;
+        }
+
+        const config = vscode.workspace.getConfiguration('workspaceSnapshots', this.workspaceFolder.uri);
+        const maxFileSize = config.get<number>('maxFileSizeMB', 50) * MB;
+        const maxSnapshotSize = config.get<number>('maxSnapshotSizeMB', 200) * MB;
+        const limits = [
+            maxFileSize > 0 ? `${maxFileSize / MB} MB per file` : '',
+            maxSnapshotSize > 0 ? `${maxSnapshotSize / MB} MB per snapshot` : '',
+        ].filter(limit => limit).join(', ');
+        const choice = await vscode.window.showWarningMessage(
+            `${oversized.length} file(s) exceed the snapshot size limits (${limits}). Do you want to snapshot them anyway?`,
+            {
+                modal: true,
+                detail: oversized.map(file => `${file.path} (${(file.size / MB).toFixed(1)} MB)`).join('\n')
+            },
+            'Skip Once',
+            'Always Exclude',
+            'Include Anyway'
+        );
+        switch (choice) {
+            case 'Skip Once':
+                return oversizedPaths;
+            case 'Always Exclude':
+                await this.excludeFiles(oversizedPaths);
+                return [];
+            case 'Include Anyway':
+                return [];
+            default:
+                throw new Error(SNAPSHOT_CANCELLED_MESSAGE);
+        }
+    }
+
+    /**
+     * The changed files that exceed the size limits: each one over the per-file limit, and then, over the
+     * snapshot budget, the largest of the others until the rest fits.
+     */
+    private async findOversizedFiles(): Promise<{ path: string; size: number }[]> {
+        const config = vscode.workspace.getConfiguration('workspaceSnapshots', this.workspaceFolder.uri);
+        const maxFileSize = config.get<number>('maxFileSizeMB', 50) * MB;
+        const maxSnapshotSize = config.get<number>('maxSnapshotSizeMB', 200) * MB;
+        if (maxFileSize <= 0 && maxSnapshotSize <= 0) {
+            return [];
+        }
+
+        // The status is the change tracker's, which the tree already read, and the sizes are only measured again
+        // once it changes, so a snapshot and the checkpoints and comparisons around it share one scan.
+        const status = this.changeTracker ? this.changeTracker.getCurrentStatus() : this.git.getStatus();
+        const limits = `${maxFileSize}:${maxSnapshotSize}`;
+        if (this._oversizedFilesCache?.status !== status || this._oversizedFilesCache.limits !== limits) {
+            this._oversizedFilesCache = { status, limits, files: this.measureOversizedFiles(status, maxFileSize, maxSnapshotSize) };
+        }
+        return this._oversizedFilesCache.files;
+    }
+
+    private async measureOversizedFiles(status: Promise<FileChange[]>, maxFileSize: number, maxSnapshotSize: number): Promise<{ path: string; size: number }[]> {
+        // Checked before anything is staged, since staging alone already copies a file into the shadow repo for good.
+        const changedFiles: { path: string; size: number }[] = [];
+        for (const change of await status) {
+            if (change.status === 'D') {
+                continue;
+            }
+            try {
+                const stats = await fs.promises.stat(path.join(this.workspaceRoot, change.path));
+                changedFiles.push({ path: change.path, size: stats.size });
+            } catch (e) {
+                // Deleted since the status was read, so there is nothing to store.
+            }
+        }
+
+        const oversized = maxFileSize > 0 ? changedFiles.filter(file => file.size > maxFileSize) : [];
+        if (maxSnapshotSize > 0) {
+            // Over the budget, the largest of the remaining files are left out until the rest fits.
+            const remaining = changedFiles.filter(file => !oversized.includes(file)).sort((a, b) => b.size - a.size);
+            let total = remaining.reduce((sum, file) => sum + file.size, 0);
+            for (const file of remaining) {
+                if (total <= maxSnapshotSize) {
+                    break;
+                }
+                oversized.push(file);
+                total -= file.size;
+            }
+        }
+        return oversized;
+    }
+
+    private async captureWorkingTree(message: string): Promise<{ hash: string; skippedPaths: string[] }> {
+        // Nobody is asked about these captures, so files over the size limits are left out, as in automatic snapshots.
+        const skippedPaths = (await this.findOversizedFiles()).map(file => file.path);
+        return { hash: await this.git.captureWorkingTree(message, skippedPaths), skippedPaths };
+    }
+
+    private async excludeFiles(filePaths: string[]): Promise<void> {
+        const ignorePath = path.join(this.workspaceRoot, SNAPSHOT_IGNORE_FILE);
+        const existing = fs.existsSync(ignorePath) ? fs.readFileSync(ignorePath, 'utf-8') : '';
+        // Anchored and escaped, so each pattern matches exactly that one file.
+        const patterns = filePaths.map(filePath => `/${filePath.replace(/[\\*?[\]!# ]/g, '\\$&')}`);
+        const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+        fs.writeFileSync(ignorePath, `${existing}${separator}${patterns.join('\n')}\n`);
+        await this.applyExclusions();
     }
 
     public async restoreSnapshot(hash: string): Promise<void> {
@@ -113,16 +358,26 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
             }
         }
 
+        await this.createSafetyCheckpoint('restore');
+
         // --- Robust File Cleanup ---
         // Get a manifest of all files in the old state and the new state.
         const previousFiles = await this.git.getTrackedFiles(previousStateHash);
         const targetFiles = await this.git.getTrackedFiles(hash);
+        await this.trashRemovedFiles(previousFiles, targetFiles);
+
+        // After cleanup, restore the files from the target snapshot.
+        await this.git.restore(hash);
+        await this.switchTimeline(hash);
+        this.restoredSnapshotId = hash;
+        this.saveMetadata();
+    }
 
-        const previousFileSet = new Set(previousFiles);
+    private async trashRemovedFiles(previousFiles: string[], targetFiles: string[]): Promise<void> {
         const targetFileSet = new Set(targetFiles);
 
         // Find files that exist in the old state but not in the new one.
-        for (const fileToDelete of previousFileSet) {
+        for (const fileToDelete of new Set(previousFiles)) {
             if (!targetFileSet.has(fileToDelete)) {
                 const fileUri = vscode.Uri.file(path.join(this.workspaceRoot, fileToDelete));
                 try {
@@ -138,11 +393,30 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
                 }
             }
         }
+    }
 
-        // After cleanup, restore the files from the target snapshot.
-        await this.git.restore(hash);
-        this.restoredSnapshotId = hash;
-        this.saveMetadata();
+    public async restorePaths(hash: string, scopes: string[], description: string): Promise<void> {
+        // An empty scope stands for the whole workspace folder.
+        const isInScope = (filePath: string) => scopes.some(scope => scope === '' || filePath === scope || filePath.startsWith(`${scope}/`));
+
+        // The checkpoint doubles as a manifest of what currently exists in the workspace.
+        const checkpointHash = await this.createSafetyCheckpoint(`restore of ${description}`);
+        const currentFiles = (await this.git.getTrackedFiles(checkpointHash)).filter(isInScope);
+        const targetFiles = (await this.git.getTrackedFiles(hash)).filter(isInScope);
+
+        // Files the snapshot does not have (e.g. it deleted them) are removed from the workspace.
+        await this.trashRemovedFiles(currentFiles, targetFiles);
+
+        if (targetFiles.length > 0) {
+            await this.git.restorePaths(hash, targetFiles);
+        }
+    }
+
+    public async getVisibleSnapshots(): Promise<{ commit: Commit; name: string }[]> {
+        const commits = await this.git.getCommits();
+        const userCommits = commits.filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash));
+        // Newest first, which is what users are usually looking for when picking a snapshot.
+        return userCommits.reverse().map(commit => ({ commit, name: this.snapshotNames.get(commit.hash) || commit.message }));
     }
 
     public renameSnapshot(commitHash: string, newName: string): void {
@@ -151,14 +425,25 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
     }
 
     public async deleteSnapshot(commitHash: string): Promise<void> {
+        await this.deleteSnapshots([commitHash]);
+    }
+
+    public async deleteSnapshots(commitHashes: string[]): Promise<void> {
         const commits = await this.git.getCommits();
         const userCommits = commits.filter(c => c.parentHash !== null);
 
-        const isDeletingLatest = userCommits.length > 0 && userCommits[userCommits.length - 1].hash === commitHash;
+        const latestHash = userCommits.length > 0 ? userCommits[userCommits.length - 1].hash : null;
+        const isDeletingLatest = latestHash !== null && commitHashes.includes(latestHash);
 
-        this.deletedSnapshotIds.add(commitHash);
+        const deletedAt = Date.now();
+        for (const commitHash of commitHashes) {
+            this.deletedSnapshotIds.add(commitHash);
+            this.deletionTimes.set(commitHash, deletedAt);
+        }
 
         if (isDeletingLatest) {
+            await this.git.updateRef(DELETED_REF_PREFIX + latestHash, latestHash);
+
             // Find the new HEAD by filtering out all deleted commits
             const visibleCommits = userCommits.filter(c => !this.deletedSnapshotIds.has(c.hash));
             
@@ -176,12 +461,68 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
             }
         }
 
-        // If the deleted snapshot was the restored one, clear the restored state.
-        if (this.restoredSnapshotId === commitHash) {
+        // If a deleted snapshot was the restored one, clear the restored state.
+        if (this.restoredSnapshotId && commitHashes.includes(this.restoredSnapshotId)) {
             this.restoredSnapshotId = null;
         }
 
         this.saveMetadata();
+
+        const threshold = vscode.workspace.getConfiguration('workspaceSnapshots').get<number>('autoCompactThreshold', 0);
+        if (threshold > 0 && this.deletedSnapshotIds.size >= threshold) {
+            await this.compactStorage();
+        }
+    }
+
+    public async getDeletedSnapshots(): Promise<{ commit: Commit; name: string; deletedAt?: number }[]> {
+        const deleted: { commit: Commit; name: string; deletedAt?: number }[] = [];
+        for (const hash of this.deletedSnapshotIds) {
+            // Deleted snapshots may no longer be part of the history, so each one is looked up on its own.
+            const commit = this._commitCache.get(hash) || await this.git.getCommit(hash);
+            if (commit) {
+                deleted.push({ commit, name: this.snapshotNames.get(hash) || commit.message, deletedAt: this.deletionTimes.get(hash) });
+            }
+        }
+        // Most recently deleted first, like a trash can.
+        return deleted.sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+    }
+
+    public async undeleteSnapshot(commitHash: string): Promise<void> {
+        if (!this.deletedSnapshotIds.has(commitHash)) {
+            throw new Error("The snapshot is not in 'Deleted Snapshots'.");
+        }
+
+        const headHash = await this.git.getHeadHash();
+        // Snapshots that are still part of a timeline only need to be unhidden.
+        if ((await this.git.getBranchesContaining(commitHash)).length === 0) {
+            // It was the latest snapshot when it was deleted, so HEAD has to move forward to it again.
+            const commit = await this.git.getCommit(commitHash);
+            if (!commit) {
+                throw new Error("The snapshot's data is no longer available.");
+            }
+
+            // Moving HEAD forward is only safe if everything it brings back into the history is still deleted.
+            const skippedHashes = await this.git.isAncestor(headHash, commitHash)
+                ? (await this.git.getCommitsBetween(headHash, commitHash)).filter(hash => hash !== commitHash)
+                : null;
+
+            let newHeadHash = commitHash;
+            if (!skippedHashes || skippedHashes.some(hash => !this.deletedSnapshotIds.has(hash))) {
+                // Snapshots were created, rewritten or purged since, so it is re-applied on top of the
+                // current latest snapshot instead.
+                const details = await this.git.getCommitDetails(commitHash);
+                newHeadHash = await this.git.commitTree(await this.git.getTreeHash(commitHash), headHash, details);
+                this._remapSnapshotHashes(new Map([[commitHash, newHeadHash]]));
+            }
+            await this.git.resetHead(newHeadHash);
+            this.deletedSnapshotIds.delete(newHeadHash);
+            this.deletionTimes.delete(newHeadHash);
+        }
+
+        await this.git.deleteRef(DELETED_REF_PREFIX + commitHash);
+        this.deletedSnapshotIds.delete(commitHash);
+        this.deletionTimes.delete(commitHash);
+        this.saveMetadata();
     }
 
     public async addSeparator(name: string): Promise<void> {
@@ -207,6 +548,31 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
         this.saveMetadata();
     }
 
+    public async attachHistory(historyPath: string): Promise<void> {
+        const storagePath = this.context.globalStorageUri.fsPath;
+        const hasSnapshots = (await this.git.getCommits('--branches')).some(c => c.parentHash !== null);
+        if (hasSnapshots) {
+            // The current history is kept under a name of its own, so it can be attached again later.
+            const detachedPath = path.join(storagePath, `${this.workspaceId}-detached-${Date.now()}`);
+            await fs.promises.rename(this.shadowRepoPath, detachedPath);
+            if (fs.existsSync(this.getMetadataPath())) {
+                await fs.promises.rename(this.getMetadataPath(), `${detachedPath}-metadata.json`);
+            }
+        } else {
+            await fs.promises.rm(this.shadowRepoPath, { recursive: true, force: true });
+            await fs.promises.rm(this.getMetadataPath(), { force: true });
+        }
+
+        await fs.promises.rename(historyPath, this.shadowRepoPath);
+        if (fs.existsSync(`${historyPath}-metadata.json`)) {
+            await fs.promises.rename(`${historyPath}-metadata.json`, this.getMetadataPath());
+        }
+
+        this.compareSelection = null;
+        this.comparison = null;
+        await this.initialize();
+    }
+
     public async clearAllSnapshots(): Promise<void> {
         if (fs.existsSync(this.shadowRepoPath)) {
             await fs.promises.rm(this.shadowRepoPath, { recursive: true, force: true });
@@ -225,7 +591,7 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
         const fileName = path.basename(item.filePath);
 
         const confirm = await vscode.window.showWarningMessage(
-            `Are you sure you want to discard changes to '${fileName}'? This cannot be undone.`,
+            `Are you sure you want to discard changes to '${fileName}'? You can undo this with 'Undo Last Restore/Discard'.`,
             { modal: true },
             'Discard'
         );
@@ -234,6 +600,13 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
             return;
         }
 
+        try {
+            await this.createSafetyCheckpoint(`discard of '${fileName}'`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to create a safety checkpoint, nothing was discarded: ${error.message}`);
+            return;
+        }
+
         if (item.status === 'A') {
             // For newly added files, move to trash.
             try {
@@ -241,6 +614,15 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
             } catch (error: any) {
                 vscode.window.showErrorMessage(`Failed to discard new file ${item.filePath}: ${error.message}`);
             }
+        } else if (item.status === 'R' && item.oldPath) {
+            // A rename can also be staged in the shadow index, so it is reset there first, leaving a deleted old path to restore.
+            try {
+                await this.git.resetPaths([item.filePath, item.oldPath]);
+                await this.git.discard(item.oldPath);
+                await vscode.workspace.fs.delete(fileUri, { useTrash: true });
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to discard rename of ${item.oldPath}: ${error.message}`);
+            }
         } else {
             // For modified or deleted files, use git to restore them.
             try {
@@ -260,7 +642,7 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
         }
 
         const confirm = await vscode.window.showWarningMessage(
-            `Are you sure you want to discard all ${changes.length} uncommitted changes? This cannot be undone.`,
+            `Are you sure you want to discard all ${changes.length} uncommitted changes? You can undo this with 'Undo Last Restore/Discard'.`,
             { modal: true },
             'Discard All'
         );
@@ -270,7 +652,16 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
         }
 
         try {
-            const untrackedFiles = changes.filter(c => c.status === 'A');
+            await this.createSafetyCheckpoint('discard of all changes');
+
+            // A rename can also be staged in the shadow index. Resetting it there turns it into a deleted old path,
+            // which is restored below, and an untracked new path.
+            const renamedPaths = changes.flatMap(c => c.status === 'R' && c.oldPath ? [c.path, c.oldPath] : []);
+            if (renamedPaths.length > 0) {
+                await this.git.resetPaths(renamedPaths);
+            }
+
+            const untrackedFiles = changes.filter(c => c.status === 'A' || c.status === 'R');
             const trackedChanges = changes.filter(c => c.status !== 'A');
 
             // Delete untracked files by moving them to the trash.
@@ -302,10 +693,14 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
     
         try {
             await this.git.stageFile(item.filePath);
+            if (item.oldPath) {
+                // Staging the removal of the old path as well keeps the rename whole.
+                await this.git.stageFile(item.oldPath);
+            }
             const originalCommit = userCommits[userCommits.length - 1];
             const newHash = await this.git.amendCommit();
             
-            this._updateLatestSnapshotAfterAmend(originalCommit.hash, newHash);
+            this._remapSnapshotHashes(new Map([[originalCommit.hash, newHash]]));
             this.snapshotToExpand = newHash;
             await this.refresh();
         } catch (error: any) {
@@ -313,6 +708,45 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
         }
     }
 
+    public async stageSelectedRanges(filePath: string, ranges: LineRange[]): Promise<void> {
+        const commits = await this.git.getCommits();
+        const userCommits = commits.filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash));
+        if (userCommits.length === 0) {
+            vscode.window.showWarningMessage("Cannot stage changes: Create a snapshot first.");
+            return;
+        }
+
+        const diffOutput = await this.git.getUnstagedDiff(filePath);
+        if (!diffOutput) {
+            // New files are not in the shadow index yet, so there is nothing to diff against line by line.
+            const changes = await this.git.getStatus();
+            if (changes.some(change => change.path === filePath && change.status === 'A')) {
+                vscode.window.showWarningMessage("New files can only be staged as a whole. Use 'Stage Changes' instead.");
+            } else {
+                vscode.window.showInformationMessage("No changes to stage.");
+            }
+            return;
+        }
+
+        const patch = buildPartialPatch(parseFilePatch(diffOutput), ranges);
+        if (!patch) {
+            vscode.window.showInformationMessage("The selection does not contain any changes.");
+            return;
+        }
+
+        try {
+            await this.git.applyToIndex(patch);
+            const originalCommit = userCommits[userCommits.length - 1];
+            const newHash = await this.git.amendCommit();
+
+            this._remapSnapshotHashes(new Map([[originalCommit.hash, newHash]]));
+            this.snapshotToExpand = newHash;
+            await this.refresh();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to stage selected changes: ${error.message}`);
+        }
+    }
+
     public async stageAllChanges(): Promise<void> {
         const commits = await this.git.getCommits();
         const userCommits = commits.filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash));
@@ -332,7 +766,7 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
             const originalCommit = userCommits[userCommits.length - 1];
             const newHash = await this.git.amendCommit();
     
-            this._updateLatestSnapshotAfterAmend(originalCommit.hash, newHash);
+            this._remapSnapshotHashes(new Map([[originalCommit.hash, newHash]]));
             this.snapshotToExpand = newHash;
             await this.refresh();
         } catch (error: any) {
@@ -340,204 +774,1267 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
         }
     }
 
-    // --- Tree Data Provider Implementation ---
-
-    public async refresh(): Promise<void> {
-        await this.updateBadge();
-        this._onDidChangeTreeData.fire();
-    }
+    public async stageIntoSnapshot(targetHash: string, filePaths: string[] | null): Promise<void> {
+        try {
+            // Without explicit paths, every uncommitted change is staged.
+            const paths = filePaths ?? (await this.git.getStatus()).flatMap(change => change.oldPath ? [change.path, change.oldPath] : [change.path]);
+            if (paths.length === 0) {
+                vscode.window.showInformationMessage("No changes to stage.");
+                return;
+            }
 
-    private async updateBadge(): Promise<void> {
-        if (this.treeView && this.git) {
-            const changes = await this.git.getStatus();
-            const changeCount = changes.length;
-            if (changeCount > 0) {
-                this.treeView.badge = {
-                    value: changeCount,
-                    tooltip: `${changeCount} uncommitted changes`
-                };
-            } else {
-                this.treeView.badge = undefined;
+            const workspaceEntries = new Map<string, TreeEntry | null>();
+            const originalEntries = new Map<string, TreeEntry | null>();
+            for (const filePath of paths) {
+                workspaceEntries.set(filePath, await this.git.hashWorkspaceFile(filePath));
+                originalEntries.set(filePath, await this.git.getTreeEntry(targetHash, filePath));
             }
+            const isSameEntry = (a: TreeEntry | null, b: TreeEntry | null) => a?.blob === b?.blob && a?.mode === b?.mode;
+
+            const rewrites = await this.rewriteHistory([targetHash], async commit => {
+                const edits = new Map<string, TreeEntry | null>();
+                for (const filePath of paths) {
+                    // Later snapshots only pick up the change if they still had the target's version of the file.
+                    // Snapshots that changed the file themselves keep their own content.
+                    const entry = commit.hash === targetHash ? null : await this.git.getTreeEntry(commit.hash, filePath);
+                    if (commit.hash === targetHash || isSameEntry(entry, originalEntries.get(filePath)!)) {
+                        edits.set(filePath, workspaceEntries.get(filePath)!);
+                    }
+                }
+                return [edits.size > 0 ? await this.git.editTree(commit.hash, edits) : await this.git.getTreeHash(commit.hash)];
+            });
+
+            // The shadow index still holds the old content for these paths; point it at the new HEAD.
+            await this.git.resetPaths(paths);
+            const mapping = this.toHashMapping(rewrites);
+            this._remapSnapshotHashes(mapping);
+            this.snapshotToExpand = mapping.get(targetHash) || null;
+            await this.refresh();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to stage changes into snapshot: ${error.message}`);
         }
     }
 
-    getTreeItem(element: TreeItem): vscode.TreeItem {
-        return element;
-    }
-
-    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
-        try {
-            if (!this.git) {
-                // This can happen on startup. Return empty and let the initialization call refresh.
-                return [];
+    // --- History Rewriting ---
+
+    /**
+     * Rewrites every commit from the first of `startHashes` up to the tip of each timeline containing it,
+     * and moves those timelines (and HEAD) to their new tips.
+     * `rewriteTrees` returns the trees that replace a commit: one to keep (or edit) it, several to split it
+     * into consecutive commits, or none to drop it. Parents are re-linked automatically.
+     * Returns each original hash mapped to the hashes that replaced it, oldest first.
+     */
+    private async rewriteHistory(startHashes: string[], rewriteTrees: (commit: Commit) => Promise<string[]>): Promise<Map<string, string[]>> {
+        const rewrites = new Map<string, string[]>();
+        // Where the history stands after each original commit, so commits shared by several timelines are only rewritten once.
+        const rewrittenTips = new Map<string, string | null>();
+
+        // The current timeline goes first, the others follow it wherever they share commits.
+        const currentBranch = await this.git.getCurrentBranch();
+        const branches = (await this.git.getBranches()).sort((a, b) => Number(b.name === currentBranch) - Number(a.name === currentBranch));
+
+        for (const branch of branches) {
+            const commits = await this.git.getCommits(branch.hash);
+            const startIndex = commits.findIndex(c => startHashes.includes(c.hash));
+            if (startIndex === -1) {
+                continue;
             }
 
-            if (element) {
-                if (element instanceof Snapshot) {
-                    const files = await this.git.getChangedFiles(element.id!);
-                    return files.map(file => new SnapshotFile(file, element.id!, this.workspaceRoot));
+            let parentHash = commits[startIndex].parentHash;
+            for (const commit of commits.slice(startIndex)) {
+                if (rewrittenTips.has(commit.hash)) {
+                    parentHash = rewrittenTips.get(commit.hash)!;
+                    continue;
                 }
-                if (element instanceof ChangesItem) {
-                    const changes = await this.git.getStatus();
-                    return changes.map(change => new WorkspaceFileChangeItem(change, this.workspaceRoot));
-                }
-                return []; // Other elements are leaves
-            } else {
-                // Root elements
-                const commits = await this.git.getCommits();
-                this._commitCache.clear();
-                commits.forEach(c => this._commitCache.set(c.hash, c));
-                const userCommits = commits.filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash));
 
-                const snapshotItems: (Snapshot | SeparatorItem)[] = userCommits.flatMap((commit, index) => {
-                    const results: (Snapshot | SeparatorItem)[] = [];
-                    const separatorName = this.separatorNames.get(commit.hash);
-                    if (separatorName) {
-                        results.push(new SeparatorItem(separatorName, commit.hash));
+                const trees = await rewriteTrees(commit);
+
+                // Nothing changed for this commit or anything before it, so it can be kept as is.
+                if (trees.length === 1 && parentHash === commit.parentHash && trees[0] === await this.git.getTreeHash(commit.hash)) {
+                    parentHash = commit.hash;
+                } else {
+                    const details = await this.git.getCommitDetails(commit.hash);
+                    const newHashes: string[] = [];
+                    for (const tree of trees) {
+                        parentHash = await this.git.commitTree(tree, parentHash, details);
+                        newHashes.push(parentHash);
                     }
+                    rewrites.set(commit.hash, newHashes);
+                }
+                rewrittenTips.set(commit.hash, parentHash);
+            }
 
-                    const customName = this.snapshotNames.get(commit.hash);
-                    const isRestored = commit.hash === this.restoredSnapshotId;
-                    const isNew = userCommits.length > 0 && index === userCommits.length - 1;
-
-                    let collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
-                    if (this.snapshotToExpand === commit.hash) {
-                        collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
-                        this.snapshotToExpand = null; // Reset after use
-                    }
-
-                    results.push(new Snapshot(commit, customName, isRestored, isNew, collapsibleState));
-                    return results;
-                });
-
-                // Add the "Changes" container at the end.
-                const changesItem = new ChangesItem();
-                return [...snapshotItems, changesItem];
+            if (!parentHash) {
+                continue;
             }
-        } catch (error: any) {
-            console.error("Error providing tree data for Workspace Snapshots:", error);
-            // Avoid showing an error message on every refresh, log it instead.
-            return [];
+            if (branch.name === currentBranch) {
+                await this.git.resetHead(parentHash);
+            } else {
+                await this.git.updateRef(`refs/heads/${branch.name}`, parentHash);
+            }
+        }
+
+        if (rewrittenTips.size === 0) {
+            throw new Error("The snapshot is not part of the current history.");
         }
+        return rewrites;
     }
 
-    // --- Diffing Logic ---
+    private toHashMapping(rewrites: Map<string, string[]>): Map<string, string | null> {
+        // Metadata follows the last replacement, which is the one holding the original commit's full content.
+        const mapping = new Map<string, string | null>();
+        rewrites.forEach((newHashes, hash) => mapping.set(hash, newHashes[newHashes.length - 1] ?? null));
+        return mapping;
+    }
+
+    // --- Squash & Split ---
 
-    public async getWorkspaceDiffUris(item: WorkspaceFileChangeItem): Promise<{ left: vscode.Uri; right: vscode.Uri; title: string } | null> {
+    public async squashSnapshots(hashes: string[], name: string): Promise<void> {
         const commits = await this.git.getCommits();
-        const userCommits = commits.filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash));
+        const visibleHashes = commits
+            .filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash))
+            .map(c => c.hash);
 
-        if (userCommits.length === 0) {
-            vscode.window.showWarningMessage("Cannot diff changes: No snapshots have been created yet.");
-            return null;
+        const indexes = hashes.map(hash => visibleHashes.indexOf(hash)).sort((a, b) => a - b);
+        if (indexes.length < 2 || indexes[0] === -1) {
+            throw new Error("Select at least two snapshots to squash.");
+        }
+        if (indexes[indexes.length - 1] - indexes[0] !== indexes.length - 1) {
+            throw new Error("Only consecutive snapshots can be squashed.");
         }
-        
-        const latestCommitHash = userCommits[userCommits.length - 1].hash;
-        const filePath = item.filePath;
 
-        // For newly added files, the left side of the diff doesn't exist in the last snapshot.
-        // We create a special URI that the content provider will resolve to an empty string.
-        const leftCommitHash = item.status === 'A' ? 'none' : latestCommitHash;
+        const firstHash = visibleHashes[indexes[0]];
+        const lastHash = visibleHashes[indexes[indexes.length - 1]];
+        // Hidden (deleted) snapshots between the selected ones are folded in as well.
+        const allHashes = commits.map(c => c.hash);
+        const squashedHashes = new Set(allHashes.slice(allHashes.indexOf(firstHash), allHashes.indexOf(lastHash) + 1));
 
-        const leftUri = vscode.Uri.from({
-            scheme: 'workspace-snapshot',
-            path: `/${filePath}`,
-            query: `commit=${leftCommitHash}`
+        const rewrites = await this.rewriteHistory([firstHash], async commit => {
+            if (commit.hash === lastHash) {
+                // The last snapshot's tree already holds the combined result of the whole range.
+                return [await this.git.getTreeHash(commit.hash)];
+            }
+            return squashedHashes.has(commit.hash) ? [] : [await this.git.getTreeHash(commit.hash)];
         });
 
-        // The right URI is the actual editable file in the workspace
-        const rightUri = vscode.Uri.file(path.join(this.workspaceRoot, filePath));
-
-        const title = `${path.basename(filePath)} (Latest Snapshot ↔ Workspace)`;
-
-        return { left: leftUri, right: rightUri, title };
-    }
+        const squashedHash = rewrites.get(lastHash)![0];
+        const separatorName = this.separatorNames.get(firstHash);
+        // Notes and tags of all squashed snapshots are kept, oldest first.
+        const notes = Array.from(squashedHashes, hash => this.snapshotNotes.get(hash)).filter((note): note is string => !!note);
+        const tags = Array.from(squashedHashes).flatMap(hash => this.snapshotTags.get(hash) || []);
+        const mapping = this.toHashMapping(rewrites);
+        squashedHashes.forEach(hash => {
+            mapping.set(hash, squashedHash);
+            this.deletedSnapshotIds.delete(hash);
+            this.deletionTimes.delete(hash);
+        });
+        this._remapSnapshotHashes(mapping);
 
-    private findVisibleParentHash(commitHash: string): string | null {
-        let currentCommit = this._commitCache.get(commitHash);
-    
-        while (currentCommit) {
-            const parentHash = currentCommit.parentHash;
-    
-            // Stop if we've reached the beginning of the history.
-            if (!parentHash) {
-                return null;
-            }
-    
-            // If the parent is not in the set of deleted snapshots, we've found our target.
-            if (!this.deletedSnapshotIds.has(parentHash)) {
-                return parentHash;
-            }
-            
-            // The parent was deleted, so continue searching up the tree from the parent.
-            currentCommit = this._commitCache.get(parentHash);
+        // The squashed snapshot is a deliberate, named checkpoint that sits where the first one was.
+        this.snapshotNames.set(squashedHash, name);
+        this.autoSnapshotTriggers.delete(squashedHash);
+        if (notes.length > 0) {
+            this.snapshotNotes.set(squashedHash, notes.join('\n\n'));
         }
-    
-        return null;
+        if (tags.length > 0) {
+            this.snapshotTags.set(squashedHash, Array.from(new Set(tags)));
+        }
+        if (separatorName) {
+            this.separatorNames.set(squashedHash, separatorName);
+        } else {
+            this.separatorNames.delete(squashedHash);
+        }
+        this.snapshotToExpand = squashedHash;
+        this.saveMetadata();
     }
 
-    async getDiffUris(item: Snapshot | SnapshotFile): Promise<{ left: vscode.Uri; right: vscode.Uri; title: string } | null> {
-        // Check for the properties we need, instead of a strict class instance.
-        // This allows us to re-create diffs from plain objects during the refresh process.
-        if (!item || !('filePath' in item) || !('commitHash' in item) || typeof item.filePath !== 'string' || typeof item.commitHash !== 'string') {
-            return null;
+    public async splitSnapshot(hash: string, fileGroups: string[][]): Promise<void> {
+        const commit = (await this.git.getCommits()).find(c => c.hash === hash);
+        if (!commit || !commit.parentHash) {
+            throw new Error("The snapshot is not part of the current history.");
         }
 
-        const filePath = item.filePath;
-        const commitHash = item.commitHash;
-
-        const getSnapshotName = (hash: string | null): string => {
-            if (!hash) {
-                return 'Base';
-            }
-            const customName = this.snapshotNames.get(hash);
-            if (customName) {
-                return customName;
+        const rewrites = await this.rewriteHistory([hash], async current => {
+            if (current.hash !== hash) {
+                return [await this.git.getTreeHash(current.hash)];
             }
-            const commit = this._commitCache.get(hash);
-            return commit ? commit.message : hash.substring(0, 7);
-        };
 
-        const rightUri = vscode.Uri.from({
-            scheme: 'workspace-snapshot',
-            path: `/${filePath}`,
-            query: `commit=${commitHash}`
+            // Each piece builds on the previous one, adding its own group of files as they are in the snapshot.
+            // Whatever is left over goes into the final piece, which ends up identical to the original snapshot.
+            // A renamed file takes the removal of its old path along, so no piece has the file twice.
+            const oldPaths = new Map((await this.git.getChangedFiles(hash)).map(file => [file.path, file.oldPath]));
+            const trees: string[] = [];
+            const edits = new Map<string, TreeEntry | null>();
+            for (const group of fileGroups) {
+                for (const filePath of group) {
+                    edits.set(filePath, await this.git.getTreeEntry(hash, filePath));
+                    const oldPath = oldPaths.get(filePath);
+                    if (oldPath) {
+                        edits.set(oldPath, null);
+                    }
+                }
+                trees.push(await this.git.editTree(commit.parentHash!, edits));
+            }
+            trees.push(await this.git.getTreeHash(hash));
+            return trees;
         });
-        const rightName = getSnapshotName(commitHash);
 
-        let leftUri: vscode.Uri;
-        let leftName: string;
+        const pieces = rewrites.get(hash)!;
+        const baseName = this.snapshotNames.get(hash) || commit.message;
+        const separatorName = this.separatorNames.get(hash);
+        this._remapSnapshotHashes(this.toHashMapping(rewrites));
 
-        const parentHash = this.findVisibleParentHash(commitHash);
-        leftUri = vscode.Uri.from({
-            scheme: 'workspace-snapshot',
-            path: `/${filePath}`,
-            query: `commit=${parentHash || 'none'}`
-        });
-        leftName = getSnapshotName(parentHash);
+        pieces.forEach((pieceHash, index) => this.snapshotNames.set(pieceHash, `${baseName} (${index + 1}/${pieces.length})`));
+        // The separator stays in front of the first piece, where the original snapshot began.
+        if (separatorName) {
+            this.separatorNames.delete(pieces[pieces.length - 1]);
+            this.separatorNames.set(pieces[0], separatorName);
+        }
+        this.saveMetadata();
+    }
+
+    // --- Storage Compaction ---
+
+    public async compactStorage(): Promise<{ removedSnapshots: number; bytesBefore: number; bytesAfter: number }> {
+        const bytesBefore = await this.getDirectorySize(this.shadowRepoPath);
+        const removedSnapshots = this.deletedSnapshotIds.size;
+        await this.purgeSnapshots(Array.from(this.deletedSnapshotIds));
+        const bytesAfter = await this.getDirectorySize(this.shadowRepoPath);
+        return { removedSnapshots, bytesBefore, bytesAfter };
+    }
+
+    public async purgeSnapshots(hashes: string[]): Promise<void> {
+        const purgedHashes = new Set(hashes.filter(hash => this.deletedSnapshotIds.has(hash)));
+
+        // Every timeline is searched, since deleted snapshots can be part of any of them.
+        const commits = await this.git.getCommits('--branches');
+        if (commits.some(c => purgedHashes.has(c.hash))) {
+            // Surviving snapshots keep their trees, so their diffs against the visible parent don't change.
+            const rewrites = await this.rewriteHistory(Array.from(purgedHashes), async commit => {
+                return purgedHashes.has(commit.hash) ? [] : [await this.git.getTreeHash(commit.hash)];
+            });
+            this._remapSnapshotHashes(this.toHashMapping(rewrites));
+        }
+
+        // Deleted snapshots that were no longer in the history at all (e.g. a deleted latest snapshot) only need forgetting.
+        for (const hash of purgedHashes) {
+            await this.git.deleteRef(DELETED_REF_PREFIX + hash);
+            this.deletedSnapshotIds.delete(hash);
+            this.deletionTimes.delete(hash);
+        }
+        this.saveMetadata();
+
+        await this.git.pruneUnreachable();
+    }
+
+    private async getDirectorySize(dirPath: string): Promise<number> {
+        let total = 0;
+        for (const entry of await fs.promises.readdir(dirPath, { withFileTypes: true })) {
+            const entryPath = path.join(dirPath, entry.name);
+            if (entry.isDirectory()) {
+                total += await this.getDirectorySize(entryPath);
+            } else if (entry.isFile()) {
+                total += (await fs.promises.stat(entryPath)).size;
+            }
+        }
+        return total;
+    }
+
+    // --- Patches ---
+
+    public async exportPatch(hashes: string[]): Promise<Buffer> {
+        // A range runs from the oldest to the newest selected snapshot, which have to be on the same lineage.
+        let oldestHash = hashes[0];
+        let newestHash = hashes[0];
+        for (const hash of hashes.slice(1)) {
+            if (await this.git.isAncestor(hash, oldestHash)) {
+                oldestHash = hash;
+            }
+            if (await this.git.isAncestor(newestHash, hash)) {
+                newestHash = hash;
+            }
+        }
+        for (const hash of hashes) {
+            if (!await this.git.isAncestor(oldestHash, hash) || !await this.git.isAncestor(hash, newestHash)) {
+                throw new Error("Snapshots from different timelines cannot be exported together.");
+            }
+        }
+
+        // Like the snapshot's own diffs, the patch is taken against the visible parent.
+        const patch = await this.git.getPatch(await this.findVisibleParentHash(oldestHash), newestHash);
+        if (patch.length === 0) {
+            throw new Error("The selected snapshots do not contain any changes.");
+        }
+        return patch;
+    }
+
+    public async importPatch(patch: Buffer, name: string): Promise<{ applied: string[]; failed: { path: string; reason: string }[] }> {
+        const filePatches = splitPatchByFile(patch);
+        if (filePatches.length === 0) {
+            throw new Error("The file does not contain a patch.");
+        }
+
+        await this.createSafetyCheckpoint('patch import');
+
+        // Every file is applied on its own, so one failing file doesn't keep the others out.
+        const applied: string[] = [];
+        const failed: { path: string; reason: string }[] = [];
+        for (const filePatch of filePatches) {
+            try {
+                await this.git.applyToWorkTree(filePatch.patch);
+                applied.push(filePatch.path);
+            } catch (error: any) {
+                const reason = /^error: (.*)$/m.exec(error.message)?.[1] || 'The patch does not apply.';
+                failed.push({ path: filePatch.path, reason });
+            }
+        }
+        // The patch changed the workspace just now, before any file event could tell the change tracker.
+        this.changeTracker?.invalidate();
+
+        if (applied.length > 0) {
+            await this.createSnapshot(name);
+        }
+        return { applied, failed };
+    }
+
+    // --- History Backup ---
+
+    public async exportHistory(archivePath: string): Promise<void> {
+        // Safety checkpoints are left out; undo only makes sense for the workspace they were taken in.
+        const bundlePath = path.join(this.shadowRepoPath, 'export.bundle');
+        try {
+            await this.git.createBundle(bundlePath, ['refs/heads/*', `${DELETED_REF_PREFIX}*`]);
+            const metadata: HistoryArchiveMetadata = {
+                currentBranch: await this.git.getCurrentBranch(),
+                names: Object.fromEntries(this.snapshotNames),
+                separators: Object.fromEntries(this.separatorNames),
+                deletedIds: Array.from(this.deletedSnapshotIds),
+                deletedAt: Object.fromEntries(this.deletionTimes),
+                autoSnapshots: Object.fromEntries(this.autoSnapshotTriggers),
+                notes: Object.fromEntries(this.snapshotNotes),
+                tags: Object.fromEntries(this.snapshotTags),
+                skippedFiles: Object.fromEntries(this.skippedFiles),
+                pinned: Array.from(this.pinnedSnapshotIds),
+            };
+            const header = Buffer.from(`${HISTORY_ARCHIVE_HEADER}\n${JSON.stringify(metadata)}\n`, 'utf-8');
+            await fs.promises.writeFile(archivePath, Buffer.concat([header, await fs.promises.readFile(bundlePath)]));
+        } finally {
+            await fs.promises.rm(bundlePath, { force: true });
+        }
+    }
+
+    /**
+     * Adds the snapshots of a history archive to this folder's history. Every imported timeline is grafted onto
+     * the local initial commit, so it shows up as a timeline of its own next to the existing snapshots.
+     * Returns the number of snapshots that were added.
+     */
+    public async importHistory(archivePath: string): Promise<number> {
+        const archive = await fs.promises.readFile(archivePath);
+        const headerEnd = archive.indexOf('\n');
+        const metadataEnd = archive.indexOf('\n', headerEnd + 1);
+        if (headerEnd === -1 || metadataEnd === -1 || archive.subarray(0, headerEnd).toString('utf-8') !== HISTORY_ARCHIVE_HEADER) {
+            throw new Error("The file is not a snapshot history export.");
+        }
+        const metadata: HistoryArchiveMetadata = JSON.parse(archive.subarray(headerEnd + 1, metadataEnd).toString('utf-8'));
+
+        const bundlePath = path.join(this.shadowRepoPath, 'import.bundle');
+        await fs.promises.writeFile(bundlePath, archive.subarray(metadataEnd + 1));
+        try {
+            await this.git.fetchBundle(bundlePath, [
+                `+refs/heads/*:${IMPORT_REF_PREFIX}heads/*`,
+                `+${DELETED_REF_PREFIX}*:${IMPORT_REF_PREFIX}deleted/*`,
+            ]);
+
+            const localRoot = (await this.git.getCommits()).find(c => c.parentHash === null)!;
+            const existingHashes = new Set((await this.git.getCommits('--branches', `--glob=${DELETED_REF_PREFIX}`)).map(c => c.hash));
+            const hadSnapshots = (await this.git.getCommits('--branches')).some(c => c.parentHash !== null);
+
+            // Rewrites an imported commit (and its ancestors) onto the local root, keeping trees, messages and dates.
+            const mapping = new Map<string, string>();
+            const graft = async (tipHash: string): Promise<string> => {
+                for (const commit of await this.git.getCommits(tipHash)) {
+                    if (mapping.has(commit.hash)) {
+                        continue;
+                    }
+                    const newHash = commit.parentHash === null
+                        ? localRoot.hash
+                        : await this.git.commitTree(await this.git.getTreeHash(commit.hash), mapping.get(commit.parentHash)!, await this.git.getCommitDetails(commit.hash));
+                    mapping.set(commit.hash, newHash);
+                }
+                return mapping.get(tipHash)!;
+            };
+
+            let importedHeadHash: string | null = null;
+            for (const ref of await this.git.getRefs(`${IMPORT_REF_PREFIX}heads/`)) {
+                const tipHash = await graft(ref.hash);
+                if (ref.name === `${IMPORT_REF_PREFIX}heads/${metadata.currentBranch}`) {
+                    importedHeadHash = tipHash;
+                }
+                // A timeline that is already part of the history (e.g. from an earlier import) is not added twice.
+                if (tipHash === localRoot.hash || (await this.git.getBranchesContaining(tipHash)).length > 0) {
+                    continue;
+                }
+                const name = this.getNewTimelineName(await this.git.getBranches());
+                await this.git.createBranch(name, tipHash);
+            }
+            for (const ref of await this.git.getRefs(`${IMPORT_REF_PREFIX}deleted/`)) {
+                const hash = await graft(ref.hash);
+                await this.git.updateRef(DELETED_REF_PREFIX + hash, hash);
+            }
+
+            // Existing metadata wins, so importing the same archive twice doesn't undo renames made in between.
+            const mergeInto = <T>(target: Map<string, T>, entries: Record<string, T>) => {
+                Object.entries(entries).forEach(([hash, value]) => {
+                    const newHash = mapping.get(hash);
+                    if (newHash && !target.has(newHash)) {
+                        target.set(newHash, value);
+                    }
+                });
+            };
+            mergeInto(this.snapshotNames, metadata.names);
+            mergeInto(this.separatorNames, metadata.separators);
+            mergeInto(this.deletionTimes, metadata.deletedAt);
+            mergeInto(this.autoSnapshotTriggers, metadata.autoSnapshots);
+            mergeInto(this.snapshotNotes, metadata.notes || {});
+            mergeInto(this.snapshotTags, metadata.tags || {});
+            mergeInto(this.skippedFiles, metadata.skippedFiles || {});
+            metadata.deletedIds.forEach(hash => {
+                if (mapping.has(hash)) {
+                    this.deletedSnapshotIds.add(mapping.get(hash)!);
+                }
+            });
+            (metadata.pinned || []).forEach(hash => {
+                if (mapping.has(hash)) {
+                    this.pinnedSnapshotIds.add(mapping.get(hash)!);
+                }
+            });
+            this.saveMetadata();
+
+            // Into an empty history, the import is a plain restore of the backup: its current timeline becomes the current one.
+            if (!hadSnapshots && importedHeadHash) {
+                await this.switchTimeline(importedHeadHash);
+            }
+
+            return new Set(Array.from(mapping.values()).filter(hash => !existingHashes.has(hash))).size;
+        } finally {
+            for (const ref of await this.git.getRefs(IMPORT_REF_PREFIX)) {
+                await this.git.deleteRef(ref.name);
+            }
+            await fs.promises.rm(bundlePath, { force: true });
+        }
+    }
+
+    // --- Safety Checkpoints ---
+
+    private async createSafetyCheckpoint(operation: string): Promise<string> {
+        const { hash, skippedPaths } = await this.captureWorkingTree(`Safety checkpoint before ${operation}`);
+        // Only the most recent operation can be undone, so the ref is simply overwritten.
+        await this.git.updateRef(SAFETY_REF, hash);
+        this.safetyCheckpoint = {
+            hash,
+            operation,
+            restoredSnapshotId: this.restoredSnapshotId,
+            branch: await this.git.getCurrentBranch(),
+            skippedPaths,
+        };
+        this.saveMetadata();
+        return hash;
+    }
+
+    public getUndoableOperation(): string | null {
+        return this.safetyCheckpoint?.operation ?? null;
+    }
+
+    public async undoLastOperation(): Promise<void> {
+        const checkpoint = this.safetyCheckpoint;
+        if (!checkpoint) {
+            throw new Error("There is no restore or discard to undo.");
+        }
+
+        // The checkpoint only has stale content for the files it skipped, so undo leaves those alone.
+        const skippedPaths = checkpoint.skippedPaths ?? [];
+        const skippedPathSet = new Set(skippedPaths);
+
+        // Anything that exists now but did not exist at the checkpoint was brought back by the operation.
+        const currentState = await this.captureWorkingTree('Workspace state before undo');
+        const currentFiles = (await this.git.getTrackedFiles(currentState.hash)).filter(file => !skippedPathSet.has(file));
+        const checkpointFiles = await this.git.getTrackedFiles(checkpoint.hash);
+        await this.trashRemovedFiles(currentFiles, checkpointFiles);
+
+        // This also recreates untracked files that were moved to the trash, since the checkpoint captured them.
+        await this.git.restore(checkpoint.hash, skippedPaths);
+        if (checkpoint.branch) {
+            await this.switchToBranch(checkpoint.branch);
+        }
+
+        this.restoredSnapshotId = checkpoint.restoredSnapshotId;
+        this.safetyCheckpoint = null;
+        await this.git.deleteRef(SAFETY_REF);
+        this.saveMetadata();
+    }
+
+    // --- Timelines ---
+
+    /**
+     * Makes `hash` the tip of the current timeline, so the next snapshot builds on it.
+     * Restoring the tip of a timeline switches to it; any other snapshot starts a new timeline,
+     * which keeps the snapshots that came after it reachable as an alternate timeline.
+     */
+    private async switchTimeline(hash: string): Promise<void> {
+        if (hash === await this.git.getHeadHash()) {
+            return;
+        }
+
+        const branches = await this.git.getBranches();
+        const existing = branches.find(branch => branch.hash === hash);
+        if (existing) {
+            await this.switchToBranch(existing.name);
+            return;
+        }
+
+        const name = this.getNewTimelineName(branches);
+        await this.git.createBranch(name, hash);
+        await this.switchToBranch(name);
+    }
+
+    private getNewTimelineName(branches: { name: string }[]): string {
+        const numbers = branches.map(branch => /^timeline-(\d+)$/.exec(branch.name)).map(match => match ? parseInt(match[1], 10) : 0);
+        return `timeline-${Math.max(0, ...numbers) + 1}`;
+    }
 
-        const title = `${path.basename(filePath)} (${leftName} ↔ ${rightName})`;
+    private async switchToBranch(name: string): Promise<void> {
+        const branches = await this.git.getBranches();
+        const currentName = await this.git.getCurrentBranch();
+        const current = branches.find(branch => branch.name === currentName);
+        if (name === currentName || !branches.some(branch => branch.name === name)) {
+            return;
+        }
+
+        await this.git.switchBranch(name);
+
+        // A timeline without snapshots of its own (e.g. after restoring twice in a row) would only be clutter.
+        if (current && (await this.git.getBranchesContaining(current.hash)).some(branch => branch !== current.name)) {
+            await this.git.deleteBranch(current.name);
+        }
+    }
+
+    private async getTimelines(): Promise<Timeline[]> {
+        const currentBranch = await this.git.getCurrentBranch();
+        const timelines: Timeline[] = [];
+        for (const branch of await this.git.getBranches()) {
+            if (branch.name === currentBranch) {
+                continue;
+            }
+            // Only what the timeline adds on top of the current history; the rest is already in the tree.
+            const commits = await this.git.getCommits(`HEAD..${branch.hash}`);
+            if (commits.length > 0) {
+                timelines.push({ branch: branch.name, forkHash: commits[0].parentHash!, commits });
+            }
+        }
+        return timelines;
+    }
+
+    // --- Tree Data Provider Implementation ---
+
+    public async refresh(): Promise<void> {
+        // Whatever prompted the refresh may have changed the workspace, so the status is read again.
+        this.changeTracker?.invalidate();
+        this._onDidChangeTreeData.fire();
+    }
+
+    public trackFileChange(uri: vscode.Uri): void {
+        const relativePath = path.relative(this.workspaceRoot, uri.fsPath).split(path.sep).join('/');
+        this.changeTracker?.notifyFileChanged(relativePath);
+    }
+
+    public async getChangeCount(): Promise<number> {
+        if (!this.changeTracker) {
+            return 0;
+        }
+        const changes = await this.changeTracker.getStatus();
+        return changes.length;
+    }
+
+    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+        try {
+            if (!this.git) {
+                // This can happen on startup. Return empty and let the initialization call refresh.
+                return [];
+            }
+
+            if (element) {
+                if (element instanceof Snapshot) {
+                    const files = await this.git.getChangedFiles(element.id!);
+                    await this.loadLineStats([element.commit]);
+                    const stats = this._lineStatsCache.get(element.commit.hash)?.stats || [];
+                    return files.map(file => new SnapshotFile(file, element.id!, this.workspaceRoot, stats.find(fileStats => fileStats.path === file.path)));
+                }
+                if (element instanceof ChangesItem && this.changeTracker) {
+                    // The same status as the badge, instead of reading it twice.
+                    const changes = await this.changeTracker.getStatus();
+                    // The counts are a nice-to-have, so the changes are still listed if they can't be read.
+                    const stats = await this.changeTracker.getLineStats().catch(() => []);
+                    return changes.map(change => new WorkspaceFileChangeItem(change, this.workspaceRoot, stats.find(fileStats => fileStats.path === change.path)));
+                }
+                if (element instanceof TimelineItem) {
+                    const commits = await this.filterCommits(element.commits.filter(c => !this.deletedSnapshotIds.has(c.hash)));
+                    await this.loadLineStats(commits);
+                    return commits.map(commit => this.createSnapshotItem(commit, false));
+                }
+                if (element instanceof DeletedSnapshotsItem) {
+                    const deleted = await this.getDeletedSnapshots();
+                    return deleted.map(({ commit, name, deletedAt }) => new DeletedSnapshotItem(commit, name, deletedAt, this.workspaceRoot));
+                }
+                if (element instanceof ComparisonItem && this.comparison) {
+                    const { leftHash, rightHash } = this.comparison;
+                    const files = await this.getComparisonFiles(this.comparison);
+                    return files.map(file => new ComparisonFileItem(file, leftHash, rightHash, this.workspaceRoot));
+                }
+                if (element instanceof SearchResultsItem && this.search) {
+                    // Grouped by snapshot, in the order the search found them.
+                    const groups = new Map<string, GrepMatch[]>();
+                    this.search.matches.forEach(match => groups.set(match.hash, [...(groups.get(match.hash) || []), match]));
+                    return Array.from(groups, ([hash, matches]) => new SearchSnapshotItem(this.getSnapshotName(hash), matches, this.workspaceRoot));
+                }
+                if (element instanceof SearchSnapshotItem) {
+                    const files = new Map<string, GrepMatch[]>();
+                    element.matches.forEach(match => files.set(match.path, [...(files.get(match.path) || []), match]));
+                    return Array.from(files, ([filePath, matches]) => new SearchFileItem(matches[0].hash, filePath, matches, this.workspaceRoot));
+                }
+                if (element instanceof SearchFileItem && this.search) {
+                    const search = this.search;
+                    return element.matches.map(match => new SearchMatchItem(match, this.findMatchRange(search, match), this.workspaceRoot));
+                }
+                return []; // Other elements are leaves
+            } else {
+                // Root elements
+                const commits = await this.git.getCommits();
+                this._commitCache.clear();
+                commits.forEach(c => this._commitCache.set(c.hash, c));
+                const userCommits = commits.filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash));
+                const matchingCommits = new Set(await this.filterCommits(userCommits));
+                await this.loadLineStats(Array.from(matchingCommits));
+
+                // Each alternate timeline sits right below the snapshot it forked from, or the closest visible one before it.
+                const timelineItems = new Map<string | null, TimelineItem[]>();
+                for (const timeline of await this.getTimelines()) {
+                    timeline.commits.forEach(c => this._commitCache.set(c.hash, c));
+                    const visibleCommits = timeline.commits.filter(c => !this.deletedSnapshotIds.has(c.hash));
+                    if (visibleCommits.length === 0 || (await this.filterCommits(visibleCommits)).length === 0) {
+                        continue;
+                    }
+
+                    const forkIndex = commits.findIndex(c => c.hash === timeline.forkHash);
+                    const anchor = commits.slice(0, forkIndex + 1).reverse().find(c => userCommits.includes(c));
+                    const tipName = this.getSnapshotName(visibleCommits[visibleCommits.length - 1].hash);
+                    const item = new TimelineItem(timeline.branch, tipName, this.getSnapshotName(anchor?.hash || null), timeline.commits, this.workspaceRoot);
+                    timelineItems.set(anchor?.hash || null, [...(timelineItems.get(anchor?.hash || null) || []), item]);
+                }
+
+                const snapshotItems: (Snapshot | SeparatorItem | TimelineItem)[] = userCommits.flatMap((commit, index) => {
+                    const results: (Snapshot | SeparatorItem | TimelineItem)[] = [];
+                    // Timelines stay visible while filtering, since the snapshots they hold may match.
+                    if (matchingCommits.has(commit)) {
+                        const separatorName = this.separatorNames.get(commit.hash);
+                        if (separatorName) {
+                            results.push(new SeparatorItem(separatorName, commit.hash, this.workspaceRoot));
+                        }
+
+                        const isNew = userCommits.length > 0 && index === userCommits.length - 1;
+                        let collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+                        if (this.snapshotToExpand === commit.hash) {
+                            collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+                            this.snapshotToExpand = null; // Reset after use
+                        }
+                        results.push(this.createSnapshotItem(commit, isNew, collapsibleState));
+                    }
+                    results.push(...(timelineItems.get(commit.hash) || []));
+                    return results;
+                });
+                // Timelines forked before the first visible snapshot.
+                snapshotItems.unshift(...(timelineItems.get(null) || []));
+
+                // An active comparison and search results are pinned to the top, the "Changes" container goes at the end.
+                const pinnedItems: (ComparisonItem | SearchResultsItem)[] = [];
+                if (this.comparison) {
+                    const leftName = this.getSnapshotName(this.comparison.leftHash);
+                    const rightName = this.comparison.rightHash ? this.getSnapshotName(this.comparison.rightHash) : 'Workspace';
+                    pinnedItems.push(new ComparisonItem(leftName, rightName, this.workspaceRoot));
+                }
+                if (this.search) {
+                    pinnedItems.push(new SearchResultsItem(this.search.pattern, this.search.matches.length, this.search.isTruncated, this.workspaceRoot));
+                }
+                // Deleted snapshots only get a node while there is something to undelete.
+                const deletedItems = this.deletedSnapshotIds.size > 0 ? [new DeletedSnapshotsItem(this.deletedSnapshotIds.size, this.workspaceRoot)] : [];
+                const changesItem = new ChangesItem(this.workspaceRoot);
+                return [...pinnedItems, ...snapshotItems, ...deletedItems, changesItem];
+            }
+        } catch (error: any) {
+            console.error("Error providing tree data for Workspace Snapshots:", error);
+            // Avoid showing an error message on every refresh, log it instead.
+            return [];
+        }
+    }
+
+    private createSnapshotItem(commit: Commit, isNew: boolean, collapsibleState?: vscode.TreeItemCollapsibleState): Snapshot {
+        return new Snapshot(
+            commit,
+            this.workspaceRoot,
+            this.snapshotNames.get(commit.hash),
+            commit.hash === this.restoredSnapshotId,
+            isNew,
+            this.autoSnapshotTriggers.get(commit.hash),
+            collapsibleState,
+            this.snapshotNotes.get(commit.hash),
+            this.snapshotTags.get(commit.hash),
+            this.skippedFiles.get(commit.hash),
+            this._lineStatsCache.get(commit.hash)?.stats,
+            this.pinnedSnapshotIds.has(commit.hash),
+            this.separatorNames.get(commit.hash)
+        );
+    }
+
+    private async loadLineStats(commits: Commit[]): Promise<void> {
+        // Only snapshots that are new, or whose visible parent changed, are counted, all of them with a single git call.
+        const missing: { hash: string; parentHash: string | null }[] = [];
+        for (const commit of commits) {
+            const parentHash = await this.findVisibleParentHash(commit.hash);
+            const cached = this._lineStatsCache.get(commit.hash);
+            if (!cached || cached.parentHash !== parentHash) {
+                missing.push({ hash: commit.hash, parentHash });
+            }
+        }
+        if (missing.length === 0) {
+            return;
+        }
+        try {
+            const stats = await this.git.getLineStats(missing);
+            missing.forEach(({ hash, parentHash }) => this._lineStatsCache.set(hash, { parentHash, stats: stats.get(hash) || [] }));
+        } catch (error) {
+            // The snapshots are still shown, just without their counts.
+            console.warn('Failed to count the changed lines of snapshots:', error);
+        }
+    }
+
+    // --- Pinning & Retention ---
+
+    public isPinned(hash: string): boolean {
+        return this.pinnedSnapshotIds.has(hash);
+    }
+
+    public setPinned(hash: string, isPinned: boolean): void {
+        if (isPinned) {
+            this.pinnedSnapshotIds.add(hash);
+        } else {
+            this.pinnedSnapshotIds.delete(hash);
+        }
+        this.saveMetadata();
+    }
+
+    public getRetentionPolicy(): RetentionPolicy {
+        const config = vscode.workspace.getConfiguration('workspaceSnapshots.retention');
+        return {
+            keepLast: config.get<number>('keepLast', 0),
+            hourlyForHours: config.get<number>('hourlyForHours', 0),
+            dailyForDays: config.get<number>('dailyForDays', 0),
+            weeklyForWeeks: config.get<number>('weeklyForWeeks', 0),
+        };
+    }
+
+    /**
+     * The snapshots of the current timeline that the retention rules don't keep, newest first.
+     * Pinned snapshots, snapshots with a separator, the restored snapshot and the newest snapshot of every timeline
+     * are always kept.
+     */
+    public async getSnapshotsToPrune(): Promise<string[]> {
+        const timelineTips = new Set((await this.git.getBranches()).map(branch => branch.hash));
+        const snapshots = (await this.getVisibleSnapshots()).map(({ commit }) => ({
+            hash: commit.hash,
+            timestamp: commit.timestamp,
+            isProtected: this.pinnedSnapshotIds.has(commit.hash) || this.separatorNames.has(commit.hash)
+                || commit.hash === this.restoredSnapshotId || timelineTips.has(commit.hash),
+        }));
+        return selectSnapshotsToPrune(snapshots, this.getRetentionPolicy());
+    }
+
+    /**
+     * Deletes the snapshots the retention rules don't keep. Like any deleted snapshot, they can be undeleted
+     * until the storage is compacted. Returns how many were deleted.
+     */
+    public async applyRetention(): Promise<number> {
+        const hashes = await this.getSnapshotsToPrune();
+        if (hashes.length > 0) {
+            await this.deleteSnapshots(hashes);
+        }
+        return hashes.length;
+    }
+
+    // --- Notes, Tags & Filtering ---
+
+    public getNote(hash: string): string {
+        return this.snapshotNotes.get(hash) || '';
+    }
+
+    public setNote(hash: string, note: string): void {
+        if (note.trim()) {
+            this.snapshotNotes.set(hash, note);
+        } else {
+            this.snapshotNotes.delete(hash);
+        }
+        this.saveMetadata();
+    }
+
+    public getNoteFilePath(hash: string): string {
+        // Notes are edited as real markdown files, since input boxes can't hold more than one line.
+        const notesDir = path.join(this.context.globalStorageUri.fsPath, `${this.workspaceId}-notes`);
+        fs.mkdirSync(notesDir, { recursive: true });
+        const notePath = path.join(notesDir, `${hash}.md`);
+        fs.writeFileSync(notePath, this.getNote(hash));
+        return notePath;
+    }
+
+    public getNoteHashForFile(filePath: string): string | null {
+        const notesDir = path.join(this.context.globalStorageUri.fsPath, `${this.workspaceId}-notes`);
+        return path.dirname(filePath) === notesDir && filePath.endsWith('.md') ? path.basename(filePath, '.md') : null;
+    }
+
+    public getTags(hash: string): string[] {
+        return this.snapshotTags.get(hash) || [];
+    }
+
+    public setTags(hash: string, tags: string[]): void {
+        const uniqueTags = Array.from(new Set(tags.map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag.length > 0)));
+        if (uniqueTags.length > 0) {
+            this.snapshotTags.set(hash, uniqueTags);
+        } else {
+            this.snapshotTags.delete(hash);
+        }
+        this.saveMetadata();
+    }
+
+    public setFilter(filter: SnapshotFilter | null): void {
+        this.filter = filter;
+    }
+
+    private async filterCommits(commits: Commit[]): Promise<Commit[]> {
+        const filter = this.filter;
+        if (!filter) {
+            return commits;
+        }
+
+        const matching: Commit[] = [];
+        for (const commit of commits) {
+            const matches = await matchesSnapshotFilter(filter, {
+                name: this.snapshotNames.get(commit.hash) || commit.message,
+                note: this.getNote(commit.hash),
+                tags: this.getTags(commit.hash),
+                timestamp: commit.timestamp,
+                getFiles: async () => {
+                    if (!this._changedFilesCache.has(commit.hash)) {
+                        const files = await this.git.getChangedFiles(commit.hash);
+                        // A renamed file is found by either of its names.
+                        this._changedFilesCache.set(commit.hash, files.flatMap(file => file.oldPath ? [file.path, file.oldPath] : [file.path]));
+                    }
+                    return this._changedFilesCache.get(commit.hash)!;
+                },
+            });
+            if (matches) {
+                matching.push(commit);
+            }
+        }
+        return matching;
+    }
+
+    // --- Diffing Logic ---
+
+    public async getWorkspaceDiffUris(item: WorkspaceFileChangeItem): Promise<DiffUris | null> {
+        const commits = await this.git.getCommits();
+        const userCommits = commits.filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash));
+
+        if (userCommits.length === 0) {
+            vscode.window.showWarningMessage("Cannot diff changes: No snapshots have been created yet.");
+            return null;
+        }
         
-        return { left: leftUri, right: rightUri, title };
+        const latestCommitHash = userCommits[userCommits.length - 1].hash;
+        const filePath = item.filePath;
+        const oldPath = item.oldPath || filePath;
+
+        // For newly added files, the left side of the diff doesn't exist in the last snapshot.
+        // We create a special URI that the content provider will resolve to an empty string.
+        const leftCommitHash = item.status === 'A' ? 'none' : latestCommitHash;
+
+        const leftUri = this.createSnapshotUri(oldPath, leftCommitHash);
+
+        // The right URI is the actual editable file in the workspace
+        const rightUri = vscode.Uri.file(path.join(this.workspaceRoot, filePath));
+
+        const title = `${this.getDiffFileName(filePath, oldPath)} (Latest Snapshot ↔ Workspace)`;
+
+        return this.withBinarySummaries({ left: leftUri, right: rightUri, title });
     }
 
-    private _updateLatestSnapshotAfterAmend(originalHash: string, newHash: string): void {
-        const customName = this.snapshotNames.get(originalHash);
-        if (customName) {
-            this.snapshotNames.delete(originalHash);
-            this.snapshotNames.set(newHash, customName);
+    private async withBinarySummaries(diff: DiffUris): Promise<DiffUris> {
+        if (BINARY_EDITOR_EXTENSIONS.has(path.extname(diff.right.path).toLowerCase())) {
+            return diff;
+        }
+        const [isLeftBinary, isRightBinary] = await Promise.all([diff.left, diff.right].map(async uri => {
+            const { filePath, commitHash } = this.parseDiffUri(uri);
+            const content = await this.getFileContent(filePath, commitHash);
+            return content !== null && isBinaryContent(content);
+        }));
+        if (!isLeftBinary && !isRightBinary) {
+            return diff;
         }
+
+        // A text diff of binary content is just noise, so both sides are shown as a summary of their size and hash.
+        const toSummaryUri = (uri: vscode.Uri) => {
+            const { filePath, commitHash } = this.parseDiffUri(uri);
+            return this.createSnapshotUri(filePath, commitHash, 'summary');
+        };
+        return { left: toSummaryUri(diff.left), right: toSummaryUri(diff.right), title: `${diff.title} [Binary]` };
+    }
+
+    private parseDiffUri(uri: vscode.Uri): { filePath: string; commitHash: string } {
+        // The right side of a diff is often the real file in the workspace.
+        if (uri.scheme === 'file') {
+            return { filePath: path.relative(this.workspaceRoot, uri.fsPath).split(path.sep).join('/'), commitHash: 'workspace' };
+        }
+        return { filePath: uri.path.substring(1), commitHash: new URLSearchParams(uri.query).get('commit') || 'none' };
+    }
+
+    // --- File Content ---
+
+    public async getFileContent(filePath: string, commitHash: string): Promise<Buffer | null> {
+        // 'none' stands for a side of a diff where the file doesn't exist, 'workspace' for the file on disk.
+        if (commitHash === 'none') {
+            return null;
+        }
+        if (commitHash === 'workspace') {
+            return fs.promises.readFile(path.join(this.workspaceRoot, filePath)).catch(() => null);
+        }
+        return this.git.show(commitHash, filePath);
+    }
+
+    public async getFileSummary(filePath: string, commitHash: string): Promise<string> {
+        const content = await this.getFileContent(filePath, commitHash);
+        const version = commitHash === 'workspace' ? 'Workspace' : commitHash === 'none' ? '-' : this.getSnapshotName(commitHash);
+        if (content === null) {
+            return `${filePath}\nVersion: ${version}\n\nThe file does not exist in this version.\n`;
+        }
+        // The same hash git uses for the file's content, so versions can be told apart at a glance.
+        const blobHash = crypto.createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+        return [
+            filePath,
+            `Version: ${version}`,
+            '',
+            `Type: ${isBinaryContent(content) ? 'Binary' : 'Text'}`,
+            `Size: ${content.length.toLocaleString()} bytes`,
+            `Git blob hash: ${blobHash}`,
+            '',
+        ].join('\n');
+    }
+
+    private async findVisibleParentHash(commitHash: string): Promise<string | null> {
+        // Walks the real parents, so snapshots in any timeline are diffed against what they were built on.
+        const getCommit = async (hash: string) => this._commitCache.get(hash) || await this.git.getCommit(hash);
+        let currentCommit = await getCommit(commitHash);
     
-        const separatorName = this.separatorNames.get(originalHash);
-        if (separatorName) {
-            this.separatorNames.delete(originalHash);
-            this.separatorNames.set(newHash, separatorName);
+        while (currentCommit) {
+            const parentHash = currentCommit.parentHash;
+    
+            // Stop if we've reached the beginning of the history.
+            if (!parentHash) {
+                return null;
+            }
+    
+            // If the parent is not in the set of deleted snapshots, we've found our target.
+            if (!this.deletedSnapshotIds.has(parentHash)) {
+                return parentHash;
+            }
+            
+            // The parent was deleted, so continue searching up the tree from the parent.
+            currentCommit = await getCommit(parentHash);
         }
     
-        if (this.restoredSnapshotId === originalHash) {
-            this.restoredSnapshotId = newHash;
+        return null;
+    }
+
+    async getDiffUris(item: Snapshot | SnapshotFile): Promise<DiffUris | null> {
+        // Check for the properties we need, instead of a strict class instance.
+        // This allows us to re-create diffs from plain objects during the refresh process.
+        if (!item || !('filePath' in item) || !('commitHash' in item) || typeof item.filePath !== 'string' || typeof item.commitHash !== 'string') {
+            return null;
         }
+
+        const filePath = item.filePath;
+        const commitHash = item.commitHash;
+        // A renamed file is compared with its content under the old path.
+        const oldPath = ('oldPath' in item && item.oldPath) || filePath;
+
+        const rightUri = this.createSnapshotUri(filePath, commitHash);
+        const rightName = this.getSnapshotName(commitHash);
+
+        const parentHash = await this.findVisibleParentHash(commitHash);
+        const leftUri = this.createSnapshotUri(oldPath, parentHash || 'none');
+        const leftName = this.getSnapshotName(parentHash);
+
+        const title = `${this.getDiffFileName(filePath, oldPath)} (${leftName} ↔ ${rightName})`;
+        
+        return this.withBinarySummaries({ left: leftUri, right: rightUri, title });
+    }
+
+    public async getComparisonDiffUris(item: ComparisonFileItem): Promise<DiffUris> {
+        const filePath = item.filePath;
+        const oldPath = item.oldPath || filePath;
+
+        // Added files have no left side, deleted files have no right side.
+        const leftUri = this.createSnapshotUri(oldPath, item.status === 'A' ? 'none' : item.leftHash);
+        const leftName = this.getSnapshotName(item.leftHash);
+
+        let rightUri: vscode.Uri;
+        let rightName: string;
+        if (item.rightHash) {
+            rightUri = this.createSnapshotUri(filePath, item.status === 'D' ? 'none' : item.rightHash);
+            rightName = this.getSnapshotName(item.rightHash);
+        } else {
+            // Comparing against the workspace opens the real, editable file on the right.
+            rightUri = item.status === 'D'
+                ? this.createSnapshotUri(filePath, 'none')
+                : vscode.Uri.file(path.join(this.workspaceRoot, filePath));
+            rightName = 'Workspace';
+        }
+
+        const title = `${this.getDiffFileName(filePath, oldPath)} (${leftName} ↔ ${rightName})`;
+
+        return this.withBinarySummaries({ left: leftUri, right: rightUri, title });
+    }
+
+    private getDiffFileName(filePath: string, oldPath: string): string {
+        return oldPath === filePath ? path.basename(filePath) : `${path.basename(oldPath)} → ${path.basename(filePath)}`;
+    }
+
+    public createSnapshotUri(filePath: string, commitHash: string, view?: 'summary'): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: 'workspace-snapshot',
+            authority: this.workspaceId,
+            path: `/${filePath}`,
+            query: view ? `commit=${commitHash}&view=${view}` : `commit=${commitHash}`
+        });
+    }
+
+    public getSnapshotName(hash: string | null): string {
+        if (!hash) {
+            return 'Base';
+        }
+        const customName = this.snapshotNames.get(hash);
+        if (customName) {
+            return customName;
+        }
+        const commit = this._commitCache.get(hash);
+        return commit ? commit.message : hash.substring(0, 7);
+    }
+
+    // --- Comparison ---
+
+    public selectForCompare(hash: string): void {
+        this.compareSelection = hash;
+    }
+
+    public hasCompareSelection(): boolean {
+        return this.compareSelection !== null;
+    }
+
+    public compareWithSelected(hash: string): void {
+        if (!this.compareSelection) {
+            throw new Error("Select a snapshot for comparison first.");
+        }
+        if (this.compareSelection === hash) {
+            throw new Error("Cannot compare a snapshot with itself.");
+        }
+
+        // The older snapshot always goes on the left, matching the chronological diffs elsewhere.
+        const order = Array.from(this._commitCache.keys());
+        const [leftHash, rightHash] = order.indexOf(this.compareSelection) <= order.indexOf(hash)
+            ? [this.compareSelection, hash]
+            : [hash, this.compareSelection];
+
+        this.comparison = { leftHash, rightHash };
+        this.compareSelection = null;
+    }
+
+    public compareWithWorkspace(hash: string): void {
+        this.comparison = { leftHash: hash, rightHash: null };
+    }
+
+    public clearComparison(): void {
+        this.comparison = null;
+    }
+
+    private async getComparisonFiles(comparison: Comparison): Promise<FileChange[]> {
+        // The workspace side is captured fresh on every expand, so new and deleted files are always reflected.
+        const rightHash = comparison.rightHash || (await this.captureWorkingTree('Workspace state for comparison')).hash;
+        return this.git.getDiffFiles(comparison.leftHash, rightHash);
+    }
+
+    // --- Search ---
+
+    public async searchSnapshots(pattern: string, options: GrepOptions): Promise<number> {
+        if (options.isRegex) {
+            // Matches are highlighted with JavaScript, so an expression it can't read is rejected before git runs.
+            new RegExp(pattern);
+        }
+
+        // Every visible snapshot of every timeline, oldest first like the tree.
+        const commits = (await this.git.getCommits('--branches'))
+            .filter(c => c.parentHash !== null && !this.deletedSnapshotIds.has(c.hash))
+            .sort((a, b) => a.timestamp - b.timestamp);
+        commits.forEach(c => this._commitCache.set(c.hash, c));
+        const grepMatches = await this.git.grep(commits.map(c => c.hash), pattern, options);
+
+        // A file that didn't change would match again in every later snapshot,
+        // so a match is only listed for the snapshot that introduced that version of the file.
+        const matches: GrepMatch[] = [];
+        for (const commit of commits) {
+            const commitMatches = grepMatches.filter(match => match.hash === commit.hash);
+            if (commitMatches.length === 0) {
+                continue;
+            }
+            const parentHash = await this.findVisibleParentHash(commit.hash);
+            const changedFiles = parentHash ? await this.git.getDiffFiles(parentHash, commit.hash) : await this.git.getChangedFiles(commit.hash);
+            const changedPaths = new Set(changedFiles.map(file => file.path));
+            matches.push(...commitMatches.filter(match => changedPaths.has(match.path)));
+        }
+
+        this.search = {
+            pattern,
+            options,
+            matches: matches.slice(0, MAX_SEARCH_RESULTS),
+            isTruncated: matches.length > MAX_SEARCH_RESULTS,
+        };
+        return this.search.matches.length;
+    }
+
+    public clearSearch(): void {
+        this.search = null;
+    }
+
+    // --- File History ---
+
+    public async getFileHistory(filePath: string): Promise<FileHistoryItem[]> {
+        const touchingHashes = new Set(await this.git.getCommitHashesForPath(filePath));
+        if (touchingHashes.size === 0) {
+            return [];
+        }
+
+        const commits = await this.git.getCommits('--branches');
+        const commitsByHash = new Map(commits.map(c => [c.hash, c]));
+        commits.forEach(c => this._commitCache.set(c.hash, c));
+
+        const history: FileHistoryItem[] = [];
+        for (const commit of commits) {
+            if (commit.parentHash === null || this.deletedSnapshotIds.has(commit.hash)) {
+                continue;
+            }
+
+            // The changes of deleted snapshots show up in the next visible one, so those count as well.
+            let touched = false;
+            let current: Commit | undefined = commit;
+            while (current) {
+                if (touchingHashes.has(current.hash)) {
+                    touched = true;
+                    break;
+                }
+                const parent: Commit | undefined = current.parentHash ? commitsByHash.get(current.parentHash) : undefined;
+                current = parent && this.deletedSnapshotIds.has(parent.hash) ? parent : undefined;
+            }
+            if (!touched) {
+                continue;
+            }
+
+            const parentHash = await this.findVisibleParentHash(commit.hash);
+            const before = parentHash ? await this.git.getTreeEntry(parentHash, filePath) : null;
+            const after = await this.git.getTreeEntry(commit.hash, filePath);
+            if (before?.blob === after?.blob) {
+                continue; // Changed and changed back within deleted snapshots.
+            }
+            const status = !before ? 'A' : !after ? 'D' : 'M';
+            history.push(new FileHistoryItem(commit, this.getSnapshotName(commit.hash), filePath, status, this.workspaceRoot, this.autoSnapshotTriggers.get(commit.hash)));
+        }
+        // Newest first, like the built-in Timeline.
+        return history.reverse();
+    }
+
+    public async getFileWorkspaceDiffUris(item: { filePath: string; commitHash: string; status: 'A' | 'M' | 'D' }): Promise<DiffUris> {
+        // A file deleted in the snapshot has no left side, a file that is gone from the workspace has no right side.
+        const left = this.createSnapshotUri(item.filePath, item.status === 'D' ? 'none' : item.commitHash);
+        const workspacePath = path.join(this.workspaceRoot, item.filePath);
+        const right = fs.existsSync(workspacePath) ? vscode.Uri.file(workspacePath) : this.createSnapshotUri(item.filePath, 'none');
+        const title = `${path.basename(item.filePath)} (${this.getSnapshotName(item.commitHash)} ↔ Workspace)`;
+        return this.withBinarySummaries({ left, right, title });
+    }
+
+    private findMatchRange(search: SearchResults, match: GrepMatch): [number, number] {
+        // Git only reports where the first match starts, in bytes, so the match is looked up again here.
+        // Git searches with Perl-compatible regular expressions, which are close enough to JavaScript's for highlighting.
+        try {
+            const source = search.options.isRegex ? search.pattern : search.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const found = new RegExp(source, search.options.matchCase ? '' : 'i').exec(match.text);
+            if (found) {
+                return [found.index, found.index + found[0].length];
+            }
+        } catch (e) {
+            // Not a valid JavaScript expression, so fall back to git's column.
+        }
+        const start = Buffer.from(match.text).subarray(0, match.column - 1).toString().length;
+        return [start, start];
+    }
+
+    private _remapSnapshotHashes(mapping: Map<string, string | null>): void {
+        // Every piece of metadata keyed by a commit hash has to follow the commit to its new hash.
+        // A null target means the commit was dropped, so its metadata goes with it.
+        const remap = (hash: string | null): string | null => {
+            if (hash === null || !mapping.has(hash)) {
+                return hash;
+            }
+            return mapping.get(hash)!;
+        };
+        const remapKeys = <T>(map: Map<string, T>): Map<string, T> => {
+            const remapped = new Map<string, T>();
+            map.forEach((value, hash) => {
+                const newHash = remap(hash);
+                if (newHash) {
+                    remapped.set(newHash, value);
+                }
+            });
+            return remapped;
+        };
+
+        this.snapshotNames = remapKeys(this.snapshotNames);
+        this.separatorNames = remapKeys(this.separatorNames);
+        this.autoSnapshotTriggers = remapKeys(this.autoSnapshotTriggers);
+        this.snapshotNotes = remapKeys(this.snapshotNotes);
+        this.snapshotTags = remapKeys(this.snapshotTags);
+        this.skippedFiles = remapKeys(this.skippedFiles);
+        this.deletedSnapshotIds = new Set(Array.from(this.deletedSnapshotIds, remap).filter((hash): hash is string => hash !== null));
+        this.deletionTimes = remapKeys(this.deletionTimes);
+        this.pinnedSnapshotIds = new Set(Array.from(this.pinnedSnapshotIds, remap).filter((hash): hash is string => hash !== null));
+        this.restoredSnapshotId = remap(this.restoredSnapshotId);
+        this.compareSelection = remap(this.compareSelection);
+        this.snapshotToExpand = remap(this.snapshotToExpand);
+
+        if (this.safetyCheckpoint) {
+            this.safetyCheckpoint.restoredSnapshotId = remap(this.safetyCheckpoint.restoredSnapshotId);
+        }
+        if (this.comparison) {
+            const leftHash = remap(this.comparison.leftHash);
+            const rightHash = remap(this.comparison.rightHash);
+            // A comparison with a side that no longer exists is meaningless.
+            const lostSide = !leftHash || (this.comparison.rightHash !== null && !rightHash);
+            this.comparison = lostSide ? null : { leftHash: leftHash!, rightHash };
+        }
+        // Rewritten snapshots may no longer hold what was found, so the results would point at the wrong content.
+        this.search = null;
         
         this.saveMetadata();
     }
@@ -545,30 +2042,50 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
     // --- Metadata Storage ---
 
     private getMetadataPath(): string {
-        const workspaceId = this.getWorkspaceId(this.workspaceRoot);
-        return path.join(this.context.globalStorageUri.fsPath, `${workspaceId}-metadata.json`);
+        return path.join(this.context.globalStorageUri.fsPath, `${this.workspaceId}-metadata.json`);
     }
 
     private loadMetadata(): void {
         const metadataPath = this.getMetadataPath();
-        if (fs.existsSync(metadataPath)) {
-            try {
-                const content = fs.readFileSync(metadataPath, 'utf-8');
-                const data = JSON.parse(content);
-                this.snapshotNames = new Map(Object.entries(data.names || {}));
-                this.separatorNames = new Map(Object.entries(data.separators || {}));
-                this.restoredSnapshotId = data.restoredSnapshotId || null;
-                this.deletedSnapshotIds = new Set(data.deletedIds || []);
-            } catch (e) {
-                console.error("Failed to load snapshot metadata", e);
-                this.snapshotNames = new Map();
-                this.separatorNames = new Map();
-                this.restoredSnapshotId = null;
-                this.deletedSnapshotIds = new Set();
-            }
+        if (!fs.existsSync(metadataPath)) {
+            // Initialization can run again for a different history (e.g. after attaching one), so nothing may carry over.
+            this.resetMetadata();
+            return;
+        }
+        try {
+            const content = fs.readFileSync(metadataPath, 'utf-8');
+            const data = JSON.parse(content);
+            this.snapshotNames = new Map(Object.entries(data.names || {}));
+            this.separatorNames = new Map(Object.entries(data.separators || {}));
+            this.restoredSnapshotId = data.restoredSnapshotId || null;
+            this.deletedSnapshotIds = new Set(data.deletedIds || []);
+            this.deletionTimes = new Map(Object.entries(data.deletedAt || {}));
+            this.autoSnapshotTriggers = new Map(Object.entries(data.autoSnapshots || {}));
+            this.snapshotNotes = new Map(Object.entries(data.notes || {}));
+            this.snapshotTags = new Map(Object.entries(data.tags || {}));
+            this.skippedFiles = new Map(Object.entries(data.skippedFiles || {}));
+            this.pinnedSnapshotIds = new Set(data.pinned || []);
+            this.safetyCheckpoint = data.safetyCheckpoint || null;
+        } catch (e) {
+            console.error("Failed to load snapshot metadata", e);
+            this.resetMetadata();
         }
     }
 
+    private resetMetadata(): void {
+        this.snapshotNames = new Map();
+        this.separatorNames = new Map();
+        this.restoredSnapshotId = null;
+        this.deletedSnapshotIds = new Set();
+        this.deletionTimes = new Map();
+        this.autoSnapshotTriggers = new Map();
+        this.snapshotNotes = new Map();
+        this.snapshotTags = new Map();
+        this.skippedFiles = new Map();
+        this.pinnedSnapshotIds = new Set();
+        this.safetyCheckpoint = null;
+    }
+
     private saveMetadata(): void {
         const metadataPath = this.getMetadataPath();
         const data = {
@@ -576,58 +2093,80 @@ export class SnapshotProvider implements vscode.TreeDataProvider<TreeItem> {
             separators: Object.fromEntries(this.separatorNames),
             restoredSnapshotId: this.restoredSnapshotId,
             deletedIds: Array.from(this.deletedSnapshotIds),
+            deletedAt: Object.fromEntries(this.deletionTimes),
+            autoSnapshots: Object.fromEntries(this.autoSnapshotTriggers),
+            notes: Object.fromEntries(this.snapshotNotes),
+            tags: Object.fromEntries(this.snapshotTags),
+            skippedFiles: Object.fromEntries(this.skippedFiles),
+            pinned: Array.from(this.pinnedSnapshotIds),
+            safetyCheckpoint: this.safetyCheckpoint,
         };
         fs.writeFileSync(metadataPath, JSON.stringify(data, null, 2));
     }
 
     // --- Exclusion Management ---
 
-    private async applyExclusions(): Promise<void> {
-        const patterns = await this.getExclusionPatterns();
+    public async applyExclusions(): Promise<void> {
+        this.exclusionRules = this.getExclusionRules();
         const excludeFile = path.join(this.shadowRepoPath, 'info', 'exclude');
-        fs.writeFileSync(excludeFile, patterns.join('\n'));
-    }
-
-    private async getExclusionPatterns(): Promise<string[]> {
-        // A comprehensive default list.
-        const defaultPatterns = [
-            // Self
-            '/.git/',
-            '/.git_snapshot_disabled/',
-            // Common
-            'node_modules/',
-            '__pycache__/',
-            '*.pyc', '*.pyo', '*.pyd',
-            '.DS_Store',
-            // Build output
-            '/build/',
-            '/dist/',
-            '/out/',
-            '/target/',
-            // Logs
-            '*.log',
-            'npm-debug.log*',
-            'yarn-debug.log*',
-            'yarn-error.log*',
-            // Env
-            '.env*',
-            '!.env.example',
-            // VS Code
-            '/.vscode/',
-            // Large files
-            '*.zip', '*.rar', '*.7z', '*.tar', '*.gz',
-            '*.mp4', '*.mov', '*.avi', '*.mkv',
-            '*.mp3', '*.wav', '*.ogg',
-            '*.jpg', '*.jpeg', '*.png', '*.gif', '*.bmp',
+        fs.writeFileSync(excludeFile, this.exclusionRules.map(rule => rule.pattern).join('\n'));
+        this.changeTracker?.setExclusionMatcher(createIgnoreMatcher(this.exclusionRules.map(rule => rule.pattern)));
+        // Files that just became excluded leave the index right away, so "Changes" reflects the new rules.
+        await this.git.untrackIgnoredFiles();
+    }
+
+    private getExclusionRules(): ExclusionRule[] {
+        // Later rules win, so .snapshotignore can override the setting and included files override both.
+        // .gitignore is listed so its rules can be explained, but git itself applies it after all of these, so nothing
+        // here can include again what it excludes.
+        const config = vscode.workspace.getConfiguration('workspaceSnapshots', this.workspaceFolder.uri);
+        const rules: ExclusionRule[] = [
+            ...config.get<string[]>('exclude', []).map(pattern => ({ pattern, origin: "the 'workspaceSnapshots.exclude' setting", setting: 'workspaceSnapshots.exclude' })),
+            ...this.readIgnoreFile('.gitignore'),
+            ...this.readIgnoreFile(SNAPSHOT_IGNORE_FILE),
+            // As in .gitignore, a file inside an excluded folder can't be included again.
+            ...config.get<string[]>('include', []).map(pattern => ({ pattern: `!${pattern.replace(/^!/, '')}`, origin: "the 'workspaceSnapshots.include' setting", setting: 'workspaceSnapshots.include' })),
+            // Nested repositories are never snapshotted, whatever the settings say.
+            ...['/.git/', '/.git_snapshot_disabled/'].map(pattern => ({ pattern, origin: 'the built-in rules' })),
         ];
+        return rules.filter(rule => rule.pattern.trim() && !rule.pattern.startsWith('#'));
+    }
+
+    private readIgnoreFile(fileName: string): ExclusionRule[] {
+        const filePath = path.join(this.workspaceRoot, fileName);
+        if (!fs.existsSync(filePath)) {
+            return [];
+        }
+        return fs.readFileSync(filePath, 'utf-8')
+            .split(/\r?\n/)
+            .map((pattern, index) => ({ pattern, origin: fileName, filePath, line: index + 1 }));
+    }
+
+    public async getExclusionRule(filePath: string): Promise<{ rule: ExclusionRule; isExcluded: boolean } | null> {
+        const match = await this.git.checkIgnore(filePath);
+        if (!match) {
+            return null;
+        }
 
-        // Add user's own .gitignore if it exists
-        const userGitignorePath = path.join(this.workspaceRoot, '.gitignore');
-        if (fs.existsSync(userGitignorePath)) {
-            const userPatterns = fs.readFileSync(userGitignorePath, 'utf-8').split(/\r?\n/);
-            return [...defaultPatterns, ...userPatterns.filter(p => p && !p.startsWith('#'))];
+        // A negated pattern is a rule that includes the file again.
+        const isExcluded = !match.pattern.startsWith('!');
+        const sourcePath = path.resolve(this.workspaceRoot, match.source);
+        if (sourcePath === path.join(this.shadowRepoPath, 'info', 'exclude')) {
+            // Every line of the exclude file is one of our rules, in order.
+            const rule = this.exclusionRules[match.line - 1];
+            if (rule) {
+                return { rule, isExcluded };
+            }
         }
+        // Rules from a .gitignore in a subfolder, or from the user's global git excludes.
+        const relativePath = path.relative(this.workspaceRoot, sourcePath);
+        const origin = relativePath.startsWith('..') || path.isAbsolute(relativePath) ? sourcePath : relativePath;
+        return { rule: { pattern: match.pattern, origin, filePath: sourcePath, line: match.line }, isExcluded };
+    }
 
-        return defaultPatterns;
+    public dispose(): void {
+        this.changeTracker?.dispose();
+        this._onDidChangeTreeData.dispose();
+        this._onDidCreateSnapshot.dispose();
     }
 }
@@ -0,0 +1,273 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Git } from './Git';
+import { HISTORY_MARKER_FILE, SnapshotProvider, TreeItem } from './SnapshotProvider';
+import { FilterItem, FolderItem } from './Snapshot';
+import { SnapshotFilter } from './SnapshotFilter';
+
+type RootTreeItem = TreeItem | FolderItem | FilterItem;
+
+// A shadow repo in global storage that no open workspace folder is using.
+export interface DetachedHistory {
+    historyPath: string;
+    originalPath: string | null; // Unknown for repos created before the marker file existed.
+    snapshotCount: number;
+    lastUsed: Date;
+}
+
+export class SnapshotTreeProvider implements vscode.TreeDataProvider<RootTreeItem>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<RootTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private _onDidCreateSnapshot = new vscode.EventEmitter<SnapshotProvider>();
+    readonly onDidCreateSnapshot = this._onDidCreateSnapshot.event;
+
+    // One provider (and shadow repo) per workspace folder, keyed by the folder's path.
+    private providers: Map<string, SnapshotProvider> = new Map();
+    private providerSubscriptions: Map<string, vscode.Disposable> = new Map();
+    private treeView?: vscode.TreeView<RootTreeItem>;
+    private filter: SnapshotFilter | null = null;
+
+    constructor(private context: vscode.ExtensionContext) {}
+
+    public setTreeView(treeView: vscode.TreeView<RootTreeItem>): void {
+        this.treeView = treeView;
+    }
+
+    // --- Workspace Folder Management ---
+
+    public async addFolder(folder: vscode.WorkspaceFolder): Promise<void> {
+        const root = folder.uri.fsPath;
+        if (this.providers.has(root)) {
+            return;
+        }
+
+        const provider = new SnapshotProvider(this.context, folder);
+        try {
+            await provider.initialize();
+        } catch (error: any) {
+            // A single unusable folder (e.g. a sensitive path) must not block the others.
+            vscode.window.showErrorMessage(`Failed to initialize Workspace Snapshots for '${folder.name}': ${error.message}`);
+            return;
+        }
+
+        provider.setFilter(this.filter);
+        this.providers.set(root, provider);
+        this.providerSubscriptions.set(root, vscode.Disposable.from(
+            provider.onDidChangeTreeData(() => this.refresh()),
+            provider.onDidCreateSnapshot(() => this._onDidCreateSnapshot.fire(provider))
+        ));
+        if (provider.isNewHistory) {
+            // Not awaited, so the folder doesn't wait for the user to answer.
+            this.offerMovedHistory(provider);
+        }
+        await this.refresh();
+    }
+
+    public async removeFolder(folder: vscode.WorkspaceFolder): Promise<void> {
+        const root = folder.uri.fsPath;
+        this.providerSubscriptions.get(root)?.dispose();
+        this.providerSubscriptions.delete(root);
+        this.providers.get(root)?.dispose();
+        if (this.providers.delete(root)) {
+            await this.refresh();
+        }
+    }
+
+    public getProviders(): SnapshotProvider[] {
+        // Keep the order the folders have in the workspace.
+        const folders = vscode.workspace.workspaceFolders || [];
+        return folders
+            .map(folder => this.providers.get(folder.uri.fsPath))
+            .filter((provider): provider is SnapshotProvider => provider !== undefined);
+    }
+
+    public getProviderFor(item: { workspaceRoot: string }): SnapshotProvider | undefined {
+        return this.providers.get(item.workspaceRoot);
+    }
+
+    public getProviderForUri(uri: vscode.Uri): SnapshotProvider | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder ? this.providers.get(folder.uri.fsPath) : undefined;
+    }
+
+    public getProviderById(workspaceId: string): SnapshotProvider | undefined {
+        return this.getProviders().find(provider => provider.workspaceId === workspaceId);
+    }
+
+    public async pickProvider(placeHolder: string): Promise<SnapshotProvider | undefined> {
+        const providers = this.getProviders();
+        if (providers.length <= 1) {
+            return providers[0];
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            providers.map(provider => ({
+                label: provider.workspaceFolder.name,
+                description: provider.workspaceRoot,
+                provider
+            })),
+            { placeHolder }
+        );
+        return picked?.provider;
+    }
+
+    // --- Filtering ---
+
+    public getFilter(): SnapshotFilter | null {
+        return this.filter;
+    }
+
+    public async setFilter(filter: SnapshotFilter | null): Promise<void> {
+        // The filter applies to every folder, so switching folders never hides it.
+        this.filter = filter;
+        this.providers.forEach(provider => provider.setFilter(filter));
+        await this.refresh();
+    }
+
+    // --- Moved Folders ---
+
+    public async findDetachedHistories(): Promise<DetachedHistory[]> {
+        const storagePath = this.context.globalStorageUri.fsPath;
+        const activePaths = new Set(Array.from(this.providers.values(), provider => path.join(storagePath, provider.workspaceId)));
+
+        const histories: DetachedHistory[] = [];
+        for (const entry of await fs.promises.readdir(storagePath, { withFileTypes: true })) {
+            const historyPath = path.join(storagePath, entry.name);
+            if (!entry.isDirectory() || activePaths.has(historyPath) || !fs.existsSync(path.join(historyPath, 'config'))) {
+                continue;
+            }
+
+            let originalPath: string | null = null;
+            try {
+                originalPath = JSON.parse(await fs.promises.readFile(path.join(historyPath, HISTORY_MARKER_FILE), 'utf-8')).workspacePath || null;
+            } catch (e) {
+                // No marker, so the history can only be recognized by its content.
+            }
+
+            try {
+                // The work tree is irrelevant for reading the history, and git refuses one that is gone, like a moved folder.
+                const git = new Git(historyPath, historyPath);
+                const commits = await git.getCommits('--branches');
+                histories.push({
+                    historyPath,
+                    originalPath,
+                    snapshotCount: commits.filter(c => c.parentHash !== null).length,
+                    lastUsed: (await fs.promises.stat(path.join(historyPath, 'index')).catch(() => fs.promises.stat(historyPath))).mtime,
+                });
+            } catch (error) {
+                console.warn(`Skipping unreadable snapshot history at ${historyPath}:`, error);
+            }
+        }
+        // Most recently used first.
+        return histories.sort((a, b) => b.lastUsed.getTime() - a.lastUsed.getTime());
+    }
+
+    private async offerMovedHistory(provider: SnapshotProvider): Promise<void> {
+        try {
+            const candidates = (await this.findDetachedHistories())
+                .filter(history => history.snapshotCount > 0 && !(history.originalPath && fs.existsSync(history.originalPath)));
+
+            // A history whose folder no longer exists is a match if most of the files of its latest snapshot are found
+            // in this folder. A name like 'app' or 'src' says nothing on its own, so the folder name only decides
+            // between several matches.
+            const matches: DetachedHistory[] = [];
+            for (const history of candidates) {
+                const files = await new Git(history.historyPath, provider.workspaceRoot).getTrackedFiles('HEAD').catch(() => []);
+                const found = files.filter(file => fs.existsSync(path.join(provider.workspaceRoot, file))).length;
+                if (files.length > 0 && found / files.length >= 0.5) {
+                    matches.push(history);
+                }
+            }
+            const match = matches.find(history => history.originalPath && path.basename(history.originalPath) === path.basename(provider.workspaceRoot))
+                || matches[0];
+            if (!match) {
+                return;
+            }
+
+            const origin = match.originalPath ? `'${match.originalPath}'` : 'a folder that no longer exists';
+            const choice = await vscode.window.showInformationMessage(
+                `'${provider.workspaceFolder.name}' looks like it was moved from ${origin}, which has ${match.snapshotCount} snapshot(s). Do you want to re-link that snapshot history?`,
+                'Re-link History',
+                'Start Fresh'
+            );
+            if (choice === 'Re-link History') {
+                await provider.attachHistory(match.historyPath);
+                await this.refresh();
+                vscode.window.showInformationMessage(`Re-linked ${match.snapshotCount} snapshot(s) to '${provider.workspaceFolder.name}'.`);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to re-link snapshot history: ${error.message}`);
+        }
+    }
+
+    // --- Tree Data Provider Implementation ---
+
+    public async refresh(): Promise<void> {
+        await this.updateBadge();
+        this.updateContextKeys();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private updateContextKeys(): void {
+        const canUndo = this.getProviders().some(provider => provider.getUndoableOperation() !== null);
+        vscode.commands.executeCommand('setContext', 'workspaceSnapshots.canUndo', canUndo);
+
+        const hasCompareSelection = this.getProviders().some(provider => provider.hasCompareSelection());
+        vscode.commands.executeCommand('setContext', 'workspaceSnapshots.hasCompareSelection', hasCompareSelection);
+
+        vscode.commands.executeCommand('setContext', 'workspaceSnapshots.isFiltered', this.filter !== null);
+    }
+
+    private async updateBadge(): Promise<void> {
+        if (!this.treeView) {
+            return;
+        }
+
+        const counts = await Promise.all(this.getProviders().map(provider => provider.getChangeCount()));
+        const changeCount = counts.reduce((sum, count) => sum + count, 0);
+        if (changeCount > 0) {
+            this.treeView.badge = {
+                value: changeCount,
+                tooltip: `${changeCount} uncommitted changes`
+            };
+        } else {
+            this.treeView.badge = undefined;
+        }
+    }
+
+    getTreeItem(element: RootTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: RootTreeItem): Promise<RootTreeItem[]> {
+        const providers = this.getProviders();
+
+        if (!element) {
+            // An active filter is always visible, so an unexpectedly short list is never confusing.
+            const filterItems = this.filter ? [new FilterItem(this.filter.query)] : [];
+            // A single folder keeps the flat layout; multiple folders each get a top-level node.
+            if (providers.length === 1) {
+                return [...filterItems, ...await providers[0].getChildren()];
+            }
+            return [...filterItems, ...providers.map(provider => new FolderItem(provider.workspaceFolder))];
+        }
+
+        if (element instanceof FilterItem) {
+            return [];
+        }
+        const provider = this.getProviderFor(element);
+        if (!provider) {
+            return [];
+        }
+        return provider.getChildren(element instanceof FolderItem ? undefined : element);
+    }
+
+    public dispose(): void {
+        this.providerSubscriptions.forEach(subscription => subscription.dispose());
+        this.providers.forEach(provider => provider.dispose());
+        this._onDidChangeTreeData.dispose();
+        this._onDidCreateSnapshot.dispose();
+    }
+}
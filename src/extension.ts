@@ -1,9 +1,16 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { SnapshotProvider } from './SnapshotProvider';
-import { Snapshot, SnapshotFile, SeparatorItem, WorkspaceFileChangeItem, ChangesItem } from './Snapshot';
+import * as fs from 'fs';
+import { NO_CHANGES_MESSAGE, SNAPSHOT_CANCELLED_MESSAGE, SNAPSHOT_IGNORE_FILE, SnapshotProvider } from './SnapshotProvider';
+import { SnapshotTreeProvider } from './SnapshotTreeProvider';
+import { GrepOptions } from './Git';
+import { parseSnapshotFilter } from './SnapshotFilter';
+import { hasRetentionRules } from './Retention';
+import { Snapshot, SnapshotFile, SeparatorItem, WorkspaceFileChangeItem, ChangesItem, FolderItem, ComparisonFileItem, DeletedSnapshotItem, DeletedSnapshotsItem, TimelineItem, SearchFileItem, SearchMatchItem, FileHistoryItem } from './Snapshot';
 import { ReadonlyContentProvider } from './ReadonlyContentProvider';
 import { SnapshotFileDecorationProvider } from './SnapshotFileDecorationProvider';
+import { AutoSnapshotManager } from './AutoSnapshotManager';
+import { FileHistoryProvider } from './FileHistoryProvider';
 
 export async function activate(context: vscode.ExtensionContext) {
     if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
@@ -13,30 +20,57 @@ export async function activate(context: vscode.ExtensionContext) {
 
     console.log('Congratulations, your extension "workspace-snapshots" is now active!');
 
-    const snapshotProvider = new SnapshotProvider(context);
-    try {
-        await snapshotProvider.initialize();
-    } catch (error: any) {
-        vscode.window.showErrorMessage(`Failed to initialize Workspace Snapshots: ${error.message}`);
-        return; // Block activation if initialization fails
+    const treeProvider = new SnapshotTreeProvider(context);
+    context.subscriptions.push(treeProvider);
+
+    const treeView = vscode.window.createTreeView('workspaceSnapshotsView', { treeDataProvider: treeProvider, canSelectMany: true });
+    context.subscriptions.push(treeView);
+    treeProvider.setTreeView(treeView); // Give the provider access to the TreeView
+
+    // Every workspace folder gets its own shadow repo; folders that fail to initialize are reported and skipped.
+    for (const folder of vscode.workspace.workspaceFolders) {
+        await treeProvider.addFolder(folder);
     }
 
-    const readonlyProvider = new ReadonlyContentProvider(snapshotProvider.git);
-    const decorationProvider = new SnapshotFileDecorationProvider(snapshotProvider);
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(async event => {
+        for (const folder of event.removed) {
+            await treeProvider.removeFolder(folder);
+        }
+        for (const folder of event.added) {
+            await treeProvider.addFolder(folder);
+        }
+    }));
 
-    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider('workspace-snapshot', readonlyProvider));
+    const readonlyProvider = new ReadonlyContentProvider(treeProvider);
+    const decorationProvider = new SnapshotFileDecorationProvider(treeProvider);
 
-    const treeView = vscode.window.createTreeView('workspaceSnapshotsView', { treeDataProvider: snapshotProvider });
-    context.subscriptions.push(treeView);
-    snapshotProvider.setTreeView(treeView); // Give the provider access to the TreeView
+    // Served as a read-only file system, so VS Code gets the raw bytes and decodes them like the file on disk.
+    context.subscriptions.push(vscode.workspace.registerFileSystemProvider('workspace-snapshot', readonlyProvider, { isCaseSensitive: true, isReadonly: true }));
 
     context.subscriptions.push(vscode.window.registerFileDecorationProvider(decorationProvider));
 
-    snapshotProvider.onDidChangeTreeData(() => {
+    treeProvider.onDidChangeTreeData(() => {
         decorationProvider.refresh();
     });
 
-    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.snapshot', async () => {
+    context.subscriptions.push(new AutoSnapshotManager(treeProvider));
+
+    const fileHistoryProvider = new FileHistoryProvider(treeProvider);
+    context.subscriptions.push(fileHistoryProvider);
+    const fileHistoryView = vscode.window.createTreeView('workspaceSnapshotsFileHistoryView', { treeDataProvider: fileHistoryProvider });
+    context.subscriptions.push(fileHistoryView);
+    fileHistoryProvider.setTreeView(fileHistoryView);
+
+    // Commands invoked on a tree item act on that item's folder.
+    // Commands invoked from the view title have no item, so the user picks the folder when there is more than one.
+    const resolveProvider = async (item: { workspaceRoot: string } | undefined, placeHolder: string): Promise<SnapshotProvider | undefined> => {
+        return item ? treeProvider.getProviderFor(item) : treeProvider.pickProvider(placeHolder);
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.snapshot', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder to snapshot');
+        if (!snapshotProvider) { return; }
+
         // Generate a snapshot name from the current date and time.
         const snapshotName = new Date().toLocaleString();
         try {
@@ -44,15 +78,18 @@ export async function activate(context: vscode.ExtensionContext) {
             vscode.window.showInformationMessage(`Snapshot "${snapshotName}" created.`);
             await snapshotProvider.refresh();
         } catch (error: any) {
-            if (error.message === "No changes detected since the last snapshot.") {
-                vscode.window.showWarningMessage("No changes detected since the last snapshot.");
-            } else {
+            if (error.message === NO_CHANGES_MESSAGE) {
+                vscode.window.showWarningMessage(NO_CHANGES_MESSAGE);
+            } else if (error.message !== SNAPSHOT_CANCELLED_MESSAGE) {
                 vscode.window.showErrorMessage(`Failed to create snapshot: ${error.message}`);
             }
         }
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.rename', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
         const currentName = snapshot.customName || snapshot.commit.message;
         const newName = await vscode.window.showInputBox({
             prompt: 'Enter the new name for the snapshot',
@@ -65,10 +102,97 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     }));
 
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.editNote', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
+        try {
+            // The note is stored when its file is saved, see the listener below.
+            const document = await vscode.workspace.openTextDocument(snapshotProvider.getNoteFilePath(snapshot.id!));
+            await vscode.window.showTextDocument(document);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to open note: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(async document => {
+        for (const snapshotProvider of treeProvider.getProviders()) {
+            const hash = snapshotProvider.getNoteHashForFile(document.uri.fsPath);
+            if (hash) {
+                snapshotProvider.setNote(hash, document.getText());
+                await snapshotProvider.refresh();
+                return;
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.editTags', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
+        const tags = await vscode.window.showInputBox({
+            prompt: 'Enter tags for the snapshot, separated by commas',
+            placeHolder: 'e.g., wip, before-refactor',
+            value: snapshotProvider.getTags(snapshot.id!).join(', ')
+        });
+
+        if (tags !== undefined) {
+            snapshotProvider.setTags(snapshot.id!, tags.split(','));
+            await snapshotProvider.refresh();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.pinSnapshot', async (snapshot: Snapshot, selectedItems?: vscode.TreeItem[]) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
+        const snapshots = (selectedItems && selectedItems.length > 0 ? selectedItems : [snapshot])
+            .filter((item): item is Snapshot => item instanceof Snapshot && item.workspaceRoot === snapshot.workspaceRoot);
+        snapshots.forEach(item => snapshotProvider.setPinned(item.id!, true));
+        await snapshotProvider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.unpinSnapshot', async (snapshot: Snapshot, selectedItems?: vscode.TreeItem[]) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
+        const snapshots = (selectedItems && selectedItems.length > 0 ? selectedItems : [snapshot])
+            .filter((item): item is Snapshot => item instanceof Snapshot && item.workspaceRoot === snapshot.workspaceRoot);
+        snapshots.forEach(item => snapshotProvider.setPinned(item.id!, false));
+        await snapshotProvider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.filterSnapshots', async () => {
+        const query = await vscode.window.showInputBox({
+            prompt: 'Filter snapshots by name, note or tag. Narrow it down with tag:, file:, after: and before: (YYYY-MM-DD). Leave empty to show all snapshots.',
+            placeHolder: 'e.g., login tag:wip file:src/auth after:2026-10-01',
+            value: treeProvider.getFilter()?.query || '',
+            validateInput: value => {
+                try {
+                    parseSnapshotFilter(value);
+                    return null;
+                } catch (error: any) {
+                    return error.message;
+                }
+            }
+        });
+
+        if (query !== undefined) {
+            await treeProvider.setFilter(query.trim() ? parseSnapshotFilter(query) : null);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.clearFilter', async () => {
+        await treeProvider.setFilter(null);
+    }));
+
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.deleteSnapshot', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
         const snapshotLabel = snapshot.customName || snapshot.commit.message;
         const confirm = await vscode.window.showWarningMessage(
-            `Are you sure you want to delete the snapshot '${snapshotLabel}'? This cannot be undone.`,
+            `Are you sure you want to delete the snapshot '${snapshotLabel}'? You can undelete it from 'Deleted Snapshots' until the storage is compacted.`,
             { modal: true },
             'Delete'
         );
@@ -79,7 +203,47 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.showDiff', async (item: Snapshot | SnapshotFile) => {
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.undeleteSnapshot', async (item: DeletedSnapshotItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        try {
+            await snapshotProvider.undeleteSnapshot(item.commit.hash);
+            await snapshotProvider.refresh();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to undelete snapshot: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.deleteSnapshotPermanently', async (item: DeletedSnapshotItem, selectedItems?: DeletedSnapshotItem[]) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        const items = (selectedItems && selectedItems.length > 0 ? selectedItems : [item])
+            .filter(selected => selected instanceof DeletedSnapshotItem && selected.workspaceRoot === item.workspaceRoot);
+        const label = items.length === 1 ? `the snapshot '${items[0].name}'` : `${items.length} snapshots`;
+        const confirm = await vscode.window.showWarningMessage(
+            `Are you sure you want to permanently delete ${label}? This cannot be undone.`,
+            { modal: true },
+            'Delete Permanently'
+        );
+        if (confirm !== 'Delete Permanently') { return; }
+
+        try {
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Deleting snapshots permanently...' },
+                () => snapshotProvider.purgeSnapshots(items.map(selected => selected.commit.hash))
+            );
+            await snapshotProvider.refresh();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to delete snapshot permanently: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.showDiff', async (item: Snapshot | SnapshotFile | FileHistoryItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
         try {
             const uris = await snapshotProvider.getDiffUris(item);
             if (uris) {
@@ -98,6 +262,9 @@ export async function activate(context: vscode.ExtensionContext) {
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.showWorkspaceDiff', async (item: WorkspaceFileChangeItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
         try {
             const uris = await snapshotProvider.getWorkspaceDiffUris(item);
             if (uris) {
@@ -109,7 +276,278 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     }));
 
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.squash', async (snapshot: Snapshot, selectedItems?: vscode.TreeItem[]) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
+        const snapshots = (selectedItems || [snapshot]).filter((item): item is Snapshot => item instanceof Snapshot);
+        if (snapshots.length < 2 || snapshots.some(item => item.workspaceRoot !== snapshot.workspaceRoot)) {
+            vscode.window.showWarningMessage("Select at least two consecutive snapshots from the same folder to squash.");
+            return;
+        }
+
+        // Tree selection order is click order, so the first snapshot is found by its position in the history.
+        const visibleSnapshots = await snapshotProvider.getVisibleSnapshots();
+        const oldest = visibleSnapshots.map(({ commit }) => commit.hash).reverse().find(hash => snapshots.some(item => item.id === hash));
+        const name = await vscode.window.showInputBox({
+            prompt: `Enter a name for the snapshot that replaces these ${snapshots.length} snapshots`,
+            value: oldest ? snapshotProvider.getSnapshotName(oldest) : undefined
+        });
+        if (!name) { return; }
+
+        try {
+            await snapshotProvider.squashSnapshots(snapshots.map(item => item.id!), name);
+            await snapshotProvider.refresh();
+            vscode.window.showInformationMessage(`Squashed ${snapshots.length} snapshots into "${name}".`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to squash snapshots: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.split', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider || !snapshot.id) { return; }
+
+        let remaining = (await snapshotProvider.git.getChangedFiles(snapshot.id)).map(file => file.path);
+        if (remaining.length < 2) {
+            vscode.window.showWarningMessage("A snapshot needs at least two changed files to be split.");
+            return;
+        }
+
+        // Each pick becomes one snapshot; cancelling puts all remaining files into the last one.
+        const fileGroups: string[][] = [];
+        while (remaining.length > 1) {
+            const picked = await vscode.window.showQuickPick(remaining, {
+                canPickMany: true,
+                placeHolder: `Select the files for snapshot ${fileGroups.length + 1} (press Escape to put the remaining files in the last snapshot)`
+            });
+            if (!picked || picked.length === 0) {
+                break;
+            }
+            if (picked.length === remaining.length) {
+                vscode.window.showWarningMessage("Leave at least one file for the next snapshot.");
+                continue;
+            }
+            fileGroups.push(picked);
+            remaining = remaining.filter(file => !picked.includes(file));
+        }
+
+        if (fileGroups.length === 0) { return; }
+
+        try {
+            await snapshotProvider.splitSnapshot(snapshot.id, fileGroups);
+            await snapshotProvider.refresh();
+            vscode.window.showInformationMessage(`Split the snapshot into ${fileGroups.length + 1} snapshots.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to split snapshot: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.exportPatch', async (snapshot: Snapshot, selectedItems?: vscode.TreeItem[]) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
+        const snapshots = (selectedItems || [snapshot]).filter((item): item is Snapshot => item instanceof Snapshot);
+        if (snapshots.some(item => item.workspaceRoot !== snapshot.workspaceRoot)) {
+            vscode.window.showWarningMessage("Select snapshots from a single folder to export them as one patch.");
+            return;
+        }
+
+        const name = snapshots.length === 1 ? snapshotProvider.getSnapshotName(snapshot.id!) : `${snapshots.length} snapshots`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(snapshotProvider.workspaceRoot, `${name.replace(/[^\w.-]+/g, '-')}.patch`)),
+            filters: { 'Patch Files': ['patch', 'diff'] },
+            saveLabel: 'Export Patch'
+        });
+        if (!target) { return; }
+
+        try {
+            const patch = await snapshotProvider.exportPatch(snapshots.map(item => item.id!));
+            await vscode.workspace.fs.writeFile(target, patch);
+            vscode.window.showInformationMessage(`Exported ${name} to ${path.basename(target.fsPath)}.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to export patch: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.importPatch', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder to apply the patch to');
+        if (!snapshotProvider) { return; }
+
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Patch Files': ['patch', 'diff'] },
+            openLabel: 'Import Patch'
+        });
+        if (!files || files.length === 0) { return; }
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Enter a name for the snapshot created from the patch',
+            value: path.basename(files[0].fsPath).replace(/\.(patch|diff)$/, '')
+        });
+        if (!name) { return; }
+
+        // The new snapshot records the whole workspace, so uncommitted changes would end up in it as well.
+        if (await snapshotProvider.getChangeCount() > 0) {
+            const confirm = await vscode.window.showWarningMessage(
+                `'${snapshotProvider.workspaceFolder.name}' has uncommitted changes. They will be included in the imported snapshot.`,
+                { modal: true },
+                'Import Anyway'
+            );
+            if (confirm !== 'Import Anyway') { return; }
+        }
+
+        try {
+            const patch = Buffer.from(await vscode.workspace.fs.readFile(files[0]));
+            const { applied, failed } = await snapshotProvider.importPatch(patch, name);
+            await snapshotProvider.refresh();
+
+            const failures = failed.map(failure => `${failure.path}: ${failure.reason}`).join('\n');
+            if (applied.length === 0) {
+                vscode.window.showErrorMessage('The patch could not be applied to any file.', { modal: true, detail: failures });
+            } else if (failed.length > 0) {
+                vscode.window.showWarningMessage(
+                    `Created snapshot "${name}" from ${applied.length} file(s), but ${failed.length} file(s) could not be applied.`,
+                    { modal: true, detail: failures }
+                );
+            } else {
+                vscode.window.showInformationMessage(`Created snapshot "${name}" from ${applied.length} file(s).`);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to import patch: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.selectForCompare', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider || !snapshot.id) { return; }
+
+        snapshotProvider.selectForCompare(snapshot.id);
+        await snapshotProvider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.compareWithSelected', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider || !snapshot.id) { return; }
+
+        try {
+            snapshotProvider.compareWithSelected(snapshot.id);
+            await snapshotProvider.refresh();
+        } catch (error: any) {
+            vscode.window.showWarningMessage(error.message);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.compareWithWorkspace', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider || !snapshot.id) { return; }
+
+        snapshotProvider.compareWithWorkspace(snapshot.id);
+        await snapshotProvider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.clearComparison', async (item: { workspaceRoot: string }) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        snapshotProvider.clearComparison();
+        await snapshotProvider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.showComparisonDiff', async (item: ComparisonFileItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        try {
+            const { left, right, title } = await snapshotProvider.getComparisonDiffUris(item);
+            await vscode.commands.executeCommand('vscode.diff', left, right, title, { preserveFocus: true });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Could not show diff: ${error.message}`);
+        }
+    }));
+
+    // The last search options are offered again, like the toggles of the built-in search.
+    let searchOptions: GrepOptions = { isRegex: false, matchCase: false };
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.searchSnapshots', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder to search');
+        if (!snapshotProvider) { return; }
+
+        const pattern = await vscode.window.showInputBox({
+            prompt: 'Search the contents of all snapshots',
+            placeHolder: 'e.g., function parseConfig'
+        });
+        if (!pattern) { return; }
+
+        const optionItems = [
+            { label: 'Use Regular Expression', key: 'isRegex' as const, picked: searchOptions.isRegex },
+            { label: 'Match Case', key: 'matchCase' as const, picked: searchOptions.matchCase }
+        ];
+        const pickedOptions = await vscode.window.showQuickPick(optionItems, {
+            canPickMany: true,
+            placeHolder: 'Search options (press Enter to search)'
+        });
+        if (!pickedOptions) { return; }
+        searchOptions = {
+            isRegex: pickedOptions.some(option => option.key === 'isRegex'),
+            matchCase: pickedOptions.some(option => option.key === 'matchCase')
+        };
+
+        try {
+            const matchCount = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Searching snapshots...'
+            }, () => snapshotProvider.searchSnapshots(pattern, searchOptions));
+            await snapshotProvider.refresh();
+            if (matchCount === 0) {
+                vscode.window.showInformationMessage(`No snapshot contains '${pattern}'.`);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to search snapshots: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.clearSearch', async (item: { workspaceRoot: string }) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        snapshotProvider.clearSearch();
+        await snapshotProvider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.openSearchMatch', async (item: SearchMatchItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        try {
+            const uri = snapshotProvider.createSnapshotUri(item.match.path, item.match.hash);
+            const line = item.match.line - 1;
+            await vscode.window.showTextDocument(uri, {
+                preview: true,
+                preserveFocus: true,
+                selection: new vscode.Range(line, item.range[0], line, item.range[1])
+            });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Could not open search result: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.compareFileWithWorkspace', async (item: FileHistoryItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        try {
+            const { left, right, title } = await snapshotProvider.getFileWorkspaceDiffUris(item);
+            await vscode.commands.executeCommand('vscode.diff', left, right, title, { preserveFocus: true });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Could not show diff: ${error.message}`);
+        }
+    }));
+
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.restore', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider) { return; }
+
         const snapshotLabel = typeof snapshot.label === 'string' ? snapshot.label : snapshot.label?.label;
 
         if (!snapshot.id || !snapshotLabel) {
@@ -118,7 +556,7 @@ export async function activate(context: vscode.ExtensionContext) {
         }
 
         const confirm = await vscode.window.showWarningMessage(
-            `This will revert all files in your workspace to the state of snapshot '${snapshotLabel}'. This cannot be undone.`,
+            `This will revert all files in your workspace to the state of snapshot '${snapshotLabel}'. You can undo this with 'Undo Last Restore/Discard'.`,
             { modal: true },
             'Restore Snapshot'
         );
@@ -134,9 +572,328 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.clearAllSnapshots', async () => {
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.switchTimeline', async (timeline: TimelineItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(timeline);
+        if (!snapshotProvider) { return; }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `This will revert all files in your workspace to the latest snapshot of the timeline '${timeline.label}'. You can undo this with 'Undo Last Restore/Discard'.`,
+            { modal: true },
+            'Switch Timeline'
+        );
+        if (confirm !== 'Switch Timeline') { return; }
+
+        try {
+            // Restoring the tip of a timeline makes it the current one.
+            await snapshotProvider.restoreSnapshot(timeline.commits[timeline.commits.length - 1].hash);
+            await snapshotProvider.refresh();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to switch timeline: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.undoLastOperation', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder to undo the last restore or discard in');
+        if (!snapshotProvider) { return; }
+
+        const operation = snapshotProvider.getUndoableOperation();
+        if (!operation) {
+            vscode.window.showInformationMessage("There is no restore or discard to undo.");
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Undo the last ${operation}? Your workspace will be put back exactly as it was before it.`,
+            { modal: true },
+            'Undo'
+        );
+
+        if (confirm === 'Undo') {
+            try {
+                await snapshotProvider.undoLastOperation();
+                await snapshotProvider.refresh();
+                vscode.window.showInformationMessage(`Undid the last ${operation}.`);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to undo: ${error.message}`);
+            }
+        }
+    }));
+
+    const pickSnapshot = async (snapshotProvider: SnapshotProvider, placeHolder: string): Promise<string | undefined> => {
+        const snapshots = await snapshotProvider.getVisibleSnapshots();
+        if (snapshots.length === 0) {
+            vscode.window.showWarningMessage("No snapshots found.");
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            snapshots.map(({ commit, name }) => ({ label: name, description: commit.date, hash: commit.hash })),
+            { placeHolder }
+        );
+        return picked?.hash;
+    };
+
+    const pickFolder = async (snapshotProvider: SnapshotProvider, hash: string): Promise<string | undefined> => {
+        // Snapshots only store files, so the folders are derived from the paths of the files they contain.
+        const folders = new Set<string>();
+        for (const filePath of await snapshotProvider.git.getTrackedFiles(hash)) {
+            let dir = path.posix.dirname(filePath);
+            while (dir !== '.') {
+                folders.add(dir);
+                dir = path.posix.dirname(dir);
+            }
+        }
+        if (folders.size === 0) {
+            vscode.window.showWarningMessage("This snapshot does not contain any folders.");
+            return undefined;
+        }
+        return vscode.window.showQuickPick(Array.from(folders).sort(), { placeHolder: 'Select the folder to restore' });
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.restoreFile', async (item: SnapshotFile | SearchFileItem | FileHistoryItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        const fileName = path.basename(item.filePath);
+        const message = item.status === 'D'
+            ? `'${fileName}' was deleted in this snapshot. Restoring it will remove it from your workspace.`
+            : `This will replace '${fileName}' in your workspace with its version from this snapshot.`;
+        const confirm = await vscode.window.showWarningMessage(
+            `${message} You can undo this with 'Undo Last Restore/Discard'.`,
+            { modal: true },
+            'Restore File'
+        );
+
+        if (confirm === 'Restore File') {
+            try {
+                await snapshotProvider.restorePaths(item.commitHash, [item.filePath], `'${fileName}'`);
+                await snapshotProvider.refresh();
+                vscode.window.showInformationMessage(`Restored '${fileName}'.`);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to restore file: ${error.message}`);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.restoreFolder', async (target?: vscode.Uri | Snapshot) => {
+        // Invoked from the Explorer with a folder URI, from the tree with a snapshot, or from the command palette with neither.
+        let snapshotProvider: SnapshotProvider | undefined;
+        let hash: string | undefined;
+        let folder: string | undefined;
+
+        if (target instanceof vscode.Uri) {
+            snapshotProvider = treeProvider.getProviderForUri(target);
+            if (!snapshotProvider) {
+                vscode.window.showWarningMessage("This folder is not part of a workspace folder with snapshots.");
+                return;
+            }
+            folder = path.relative(snapshotProvider.workspaceRoot, target.fsPath).split(path.sep).join('/');
+            hash = await pickSnapshot(snapshotProvider, `Select the snapshot to restore '${folder || snapshotProvider.workspaceFolder.name}' from`);
+        } else {
+            snapshotProvider = await resolveProvider(target, 'Select the workspace folder to restore from');
+            if (!snapshotProvider) { return; }
+            hash = target?.id || await pickSnapshot(snapshotProvider, 'Select the snapshot to restore from');
+            if (!hash) { return; }
+            folder = await pickFolder(snapshotProvider, hash);
+        }
+
+        if (!hash || folder === undefined) { return; }
+
+        const folderLabel = folder || snapshotProvider.workspaceFolder.name;
+        const confirm = await vscode.window.showWarningMessage(
+            `This will revert all files in '${folderLabel}' to the state of snapshot '${snapshotProvider.getSnapshotName(hash)}'. You can undo this with 'Undo Last Restore/Discard'.`,
+            { modal: true },
+            'Restore Folder'
+        );
+
+        if (confirm === 'Restore Folder') {
+            try {
+                await snapshotProvider.restorePaths(hash, [folder], `folder '${folderLabel}'`);
+                await snapshotProvider.refresh();
+                vscode.window.showInformationMessage(`Restored folder '${folderLabel}'.`);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to restore folder: ${error.message}`);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.restoreFiles', async (snapshot: Snapshot) => {
+        const snapshotProvider = treeProvider.getProviderFor(snapshot);
+        if (!snapshotProvider || !snapshot.id) { return; }
+
+        const files = await snapshotProvider.git.getTrackedFiles(snapshot.id);
+        const picked = await vscode.window.showQuickPick(files, {
+            canPickMany: true,
+            placeHolder: 'Select the files to restore from this snapshot'
+        });
+        if (!picked || picked.length === 0) { return; }
+
+        try {
+            const description = picked.length === 1 ? `'${path.basename(picked[0])}'` : `${picked.length} files`;
+            await snapshotProvider.restorePaths(snapshot.id, picked, description);
+            await snapshotProvider.refresh();
+            vscode.window.showInformationMessage(`Restored ${description}.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to restore files: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.compactStorage', async (folder?: FolderItem | DeletedSnapshotsItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder whose snapshot storage should be compacted');
+        if (!snapshotProvider) { return; }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `This will permanently purge all deleted snapshots for '${snapshotProvider.workspaceFolder.name}' from storage. They cannot be recovered afterwards.`,
+            { modal: true },
+            'Compact'
+        );
+        if (confirm !== 'Compact') { return; }
+
+        try {
+            const result = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Compacting snapshot storage...' },
+                () => snapshotProvider.compactStorage()
+            );
+            await snapshotProvider.refresh();
+            const reclaimed = Math.max(0, result.bytesBefore - result.bytesAfter);
+            vscode.window.showInformationMessage(
+                `Purged ${result.removedSnapshots} deleted snapshot(s) and reclaimed ${formatBytes(reclaimed)} (${formatBytes(result.bytesBefore)} → ${formatBytes(result.bytesAfter)}).`
+            );
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to compact snapshot storage: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.applyRetention', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder to apply the retention rules to');
+        if (!snapshotProvider) { return; }
+
+        if (!hasRetentionRules(snapshotProvider.getRetentionPolicy())) {
+            const choice = await vscode.window.showInformationMessage(
+                "No retention rules are configured. Set them under 'workspaceSnapshots.retention'.",
+                'Open Settings'
+            );
+            if (choice === 'Open Settings') {
+                await vscode.commands.executeCommand('workbench.action.openSettings', 'workspaceSnapshots.retention');
+            }
+            return;
+        }
+
+        try {
+            const hashes = await snapshotProvider.getSnapshotsToPrune();
+            if (hashes.length === 0) {
+                vscode.window.showInformationMessage(`The retention rules keep every snapshot of '${snapshotProvider.workspaceFolder.name}'.`);
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                `The retention rules will delete ${hashes.length} snapshot(s) of '${snapshotProvider.workspaceFolder.name}'. You can undelete them from 'Deleted Snapshots' until the storage is compacted.`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirm !== 'Delete') { return; }
+
+            await snapshotProvider.deleteSnapshots(hashes);
+            await snapshotProvider.refresh();
+            vscode.window.showInformationMessage(`Deleted ${hashes.length} snapshot(s).`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to apply retention rules: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.exportHistory', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder whose snapshot history should be exported');
+        if (!snapshotProvider) { return; }
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(snapshotProvider.workspaceRoot, `${snapshotProvider.workspaceFolder.name}.snapshot-history`)),
+            filters: { 'Snapshot History': ['snapshot-history'] },
+            saveLabel: 'Export History'
+        });
+        if (!target) { return; }
+
+        try {
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Exporting snapshot history...' },
+                () => snapshotProvider.exportHistory(target.fsPath)
+            );
+            vscode.window.showInformationMessage(`Exported the snapshot history of '${snapshotProvider.workspaceFolder.name}' to ${path.basename(target.fsPath)}.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to export snapshot history: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.importHistory', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder to import the snapshot history into');
+        if (!snapshotProvider) { return; }
+
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Snapshot History': ['snapshot-history'] },
+            openLabel: 'Import History'
+        });
+        if (!files || files.length === 0) { return; }
+
+        try {
+            const imported = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Importing snapshot history...' },
+                () => snapshotProvider.importHistory(files[0].fsPath)
+            );
+            await snapshotProvider.refresh();
+            vscode.window.showInformationMessage(imported > 0
+                ? `Imported ${imported} snapshot(s) into '${snapshotProvider.workspaceFolder.name}'.`
+                : 'All snapshots in this export are already part of the history.');
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to import snapshot history: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.attachHistory', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder to attach a snapshot history to');
+        if (!snapshotProvider) { return; }
+
+        const histories = await treeProvider.findDetachedHistories();
+        if (histories.length === 0) {
+            vscode.window.showInformationMessage('There are no other snapshot histories to attach.');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            histories.map(history => ({
+                label: history.originalPath ? path.basename(history.originalPath) : path.basename(history.historyPath),
+                description: history.originalPath || 'Unknown original location',
+                detail: `${history.snapshotCount} snapshot(s), last used ${history.lastUsed.toLocaleString()}`
+                    + (history.originalPath && !fs.existsSync(history.originalPath) ? ' · folder no longer exists' : ''),
+                history
+            })),
+            { placeHolder: `Select the snapshot history to attach to '${snapshotProvider.workspaceFolder.name}'`, matchOnDescription: true }
+        );
+        if (!picked) { return; }
+
+        const currentCount = (await snapshotProvider.getVisibleSnapshots()).length;
+        if (currentCount > 0) {
+            const confirm = await vscode.window.showWarningMessage(
+                `'${snapshotProvider.workspaceFolder.name}' already has ${currentCount} snapshot(s). Its current history will be detached and can be attached again later with this command.`,
+                { modal: true },
+                'Attach'
+            );
+            if (confirm !== 'Attach') { return; }
+        }
+
+        try {
+            await snapshotProvider.attachHistory(picked.history.historyPath);
+            await snapshotProvider.refresh();
+            vscode.window.showInformationMessage(`Attached ${picked.history.snapshotCount} snapshot(s) to '${snapshotProvider.workspaceFolder.name}'.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to attach snapshot history: ${error.message}`);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.clearAllSnapshots', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder whose snapshots should be cleared');
+        if (!snapshotProvider) { return; }
+
         const confirm = await vscode.window.showWarningMessage(
-            `Are you sure you want to clear ALL snapshots? This will permanently delete the shadow Git repository for this workspace. This action is not reversible.`,
+            `Are you sure you want to clear ALL snapshots for '${snapshotProvider.workspaceFolder.name}'? This will permanently delete the shadow Git repository for this folder. This action is not reversible.`,
             { modal: true },
             'Clear All'
         );
@@ -152,13 +909,13 @@ export async function activate(context: vscode.ExtensionContext) {
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.openFile', async (file: SnapshotFile | WorkspaceFileChangeItem) => {
-        if (!snapshotProvider.workspaceRoot) {
+        if (!file.workspaceRoot) {
             vscode.window.showErrorMessage("Could not determine workspace root.");
             return;
         }
 
         try {
-            const fileUri = vscode.Uri.file(path.join(snapshotProvider.workspaceRoot, file.filePath));
+            const fileUri = vscode.Uri.file(path.join(file.workspaceRoot, file.filePath));
             await vscode.window.showTextDocument(fileUri, { preview: true });
         } catch (error: any) {
             // File might not exist in the workspace (e.g., deleted), which is fine.
@@ -167,7 +924,10 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.addSeparator', async () => {
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.addSeparator', async (folder?: FolderItem) => {
+        const snapshotProvider = await resolveProvider(folder, 'Select the workspace folder to add a separator to');
+        if (!snapshotProvider) { return; }
+
         const separatorName = await vscode.window.showInputBox({
             prompt: 'Enter a name for the separator',
             placeHolder: 'e.g., Feature Implementation'
@@ -181,6 +941,8 @@ export async function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.renameSeparator', async (separator: SeparatorItem) => {
         if (!separator || !separator.snapshotId) { return; }
+        const snapshotProvider = treeProvider.getProviderFor(separator);
+        if (!snapshotProvider) { return; }
 
         const currentName = separator.rawLabel;
 
@@ -197,6 +959,8 @@ export async function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.deleteSeparator', async (separator: SeparatorItem) => {
         if (!separator || !separator.snapshotId) { return; }
+        const snapshotProvider = treeProvider.getProviderFor(separator);
+        if (!snapshotProvider) { return; }
 
         const confirm = await vscode.window.showWarningMessage(
             `Are you sure you want to delete the separator '${separator.label}'?`,
@@ -211,37 +975,170 @@ export async function activate(context: vscode.ExtensionContext) {
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.discardFileChange', async (item: WorkspaceFileChangeItem) => {
-        await snapshotProvider.discardFileChange(item);
+        await treeProvider.getProviderFor(item)?.discardFileChange(item);
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.discardAllChanges', async (item: ChangesItem) => {
-        // The 'item' is the ChangesItem from the tree, but the logic doesn't need it.
-        await snapshotProvider.discardAllChanges();
+        // The 'item' is the ChangesItem from the tree; it only tells us which folder to act on.
+        await treeProvider.getProviderFor(item)?.discardAllChanges();
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.stageFileChange', async (item: WorkspaceFileChangeItem) => {
-        await snapshotProvider.stageFileChange(item);
+        await treeProvider.getProviderFor(item)?.stageFileChange(item);
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.stageAllChanges', async () => {
-        await snapshotProvider.stageAllChanges();
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.stageIntoSnapshot', async (item: WorkspaceFileChangeItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        const hash = await pickSnapshot(snapshotProvider, `Select the snapshot to stage '${path.basename(item.filePath)}' into`);
+        if (hash) {
+            await snapshotProvider.stageIntoSnapshot(hash, [item.filePath]);
+        }
     }));
 
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.stageAllIntoSnapshot', async (item: ChangesItem) => {
+        const snapshotProvider = treeProvider.getProviderFor(item);
+        if (!snapshotProvider) { return; }
+
+        const hash = await pickSnapshot(snapshotProvider, 'Select the snapshot to stage all changes into');
+        if (hash) {
+            await snapshotProvider.stageIntoSnapshot(hash, null);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.stageSelectedRanges', async () => {
+        const editor = vscode.window.activeTextEditor;
+        const snapshotProvider = editor && editor.document.uri.scheme === 'file' ? treeProvider.getProviderForUri(editor.document.uri) : undefined;
+        if (!editor || !snapshotProvider) {
+            vscode.window.showWarningMessage("Open a file from the 'Changes' list to stage part of it.");
+            return;
+        }
+
+        // Staging works on what is on disk, so unsaved edits have to be written first.
+        if (editor.document.isDirty) {
+            await editor.document.save();
+        }
+
+        const filePath = path.relative(snapshotProvider.workspaceRoot, editor.document.uri.fsPath).split(path.sep).join('/');
+        const ranges = editor.selections.map(selection => {
+            // A selection that ends at the start of a line doesn't really include that line.
+            const endLine = !selection.isEmpty && selection.end.character === 0 && selection.end.line > selection.start.line
+                ? selection.end.line - 1
+                : selection.end.line;
+            return { start: selection.start.line + 1, end: endLine + 1, isEmpty: selection.isEmpty };
+        });
+
+        await snapshotProvider.stageSelectedRanges(filePath, ranges);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.stageAllChanges', async (item: ChangesItem) => {
+        await treeProvider.getProviderFor(item)?.stageAllChanges();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('workspace_snapshots.explainExclusion', async (uri?: vscode.Uri) => {
+        // Invoked from the Explorer with a URI, or from the command palette for the active editor.
+        const target = uri || vscode.window.activeTextEditor?.document.uri;
+        const snapshotProvider = target && target.scheme === 'file' ? treeProvider.getProviderForUri(target) : undefined;
+        if (!target || !snapshotProvider) {
+            vscode.window.showWarningMessage('Select a file from a workspace folder first.');
+            return;
+        }
+
+        const relativePath = path.relative(snapshotProvider.workspaceRoot, target.fsPath).split(path.sep).join('/');
+        // Folder patterns like "out/" only match when git knows the path is a folder.
+        const isFolder = fs.existsSync(target.fsPath) && fs.statSync(target.fsPath).isDirectory();
+        const name = path.basename(target.fsPath);
+        try {
+            const result = await snapshotProvider.getExclusionRule(isFolder ? `${relativePath}/` : relativePath);
+            if (!result) {
+                vscode.window.showInformationMessage(`'${name}' is not excluded; no exclusion rule matches it.`);
+                return;
+            }
+
+            const { rule, isExcluded } = result;
+            const location = rule.line ? `${rule.origin} (line ${rule.line})` : rule.origin;
+            const message = isExcluded
+                ? `'${name}' is excluded from snapshots by the rule '${rule.pattern}' from ${location}.`
+                : `'${name}' is included in snapshots by the rule '${rule.pattern}' from ${location}.`;
+            const choice = await vscode.window.showInformationMessage(message, 'Show Rule');
+            if (choice === 'Show Rule' && rule.setting) {
+                await vscode.commands.executeCommand('workbench.action.openSettings', rule.setting);
+            } else if (choice === 'Show Rule' && rule.filePath) {
+                const line = (rule.line || 1) - 1;
+                await vscode.window.showTextDocument(vscode.Uri.file(rule.filePath), { selection: new vscode.Range(line, 0, line, 0) });
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to check exclusions: ${error.message}`);
+        }
+    }));
+
+    // Exclusions are applied as soon as their settings or files change, without reloading the window.
+    const reapplyExclusions = async (snapshotProvider: SnapshotProvider) => {
+        try {
+            await snapshotProvider.applyExclusions();
+            await snapshotProvider.refresh();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to apply snapshot exclusions: ${error.message}`);
+        }
+    };
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async event => {
+        for (const snapshotProvider of treeProvider.getProviders()) {
+            const folderUri = snapshotProvider.workspaceFolder.uri;
+            if (event.affectsConfiguration('workspaceSnapshots.exclude', folderUri) || event.affectsConfiguration('workspaceSnapshots.include', folderUri)) {
+                await reapplyExclusions(snapshotProvider);
+            }
+        }
+    }));
+    const isIgnoreFile = (uri: vscode.Uri, snapshotProvider: SnapshotProvider) => {
+        return path.dirname(uri.fsPath) === snapshotProvider.workspaceRoot
+            && ['.gitignore', SNAPSHOT_IGNORE_FILE].includes(path.basename(uri.fsPath));
+    };
+
+    // Tell the editor menus when the active editor is one of our snapshot ↔ workspace diffs.
+    const updateSnapshotDiffContext = () => {
+        const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+        const isSnapshotDiff = input instanceof vscode.TabInputTextDiff
+            && input.original.scheme === 'workspace-snapshot'
+            && input.modified.scheme === 'file';
+        vscode.commands.executeCommand('setContext', 'workspaceSnapshots.isSnapshotDiff', isSnapshotDiff);
+    };
+    context.subscriptions.push(vscode.window.tabGroups.onDidChangeTabs(updateSnapshotDiffContext));
+    context.subscriptions.push(vscode.window.tabGroups.onDidChangeTabGroups(updateSnapshotDiffContext));
+    updateSnapshotDiffContext();
+
     // Set up a file system watcher to refresh the 'Changes' view automatically.
     const watcher = vscode.workspace.createFileSystemWatcher('**/*');
     context.subscriptions.push(watcher);
 
     // Explicitly define callbacks for the watcher to ensure correct scope.
-    // This will refresh the tree view whenever a file is changed, created, or deleted.
-    watcher.onDidChange(async () => {
-        await snapshotProvider.refresh();
-    });
-    watcher.onDidCreate(async () => {
-        await snapshotProvider.refresh();
-    });
-    watcher.onDidDelete(async () => {
-        await snapshotProvider.refresh();
-    });
+    // Events go to the folder that owns the file, which coalesces them into a single refresh.
+    // A changed ignore file is applied right away instead.
+    const onDidChangeFile = async (uri: vscode.Uri) => {
+        const snapshotProvider = treeProvider.getProviderForUri(uri);
+        if (!snapshotProvider) {
+            return;
+        }
+        if (isIgnoreFile(uri, snapshotProvider)) {
+            await reapplyExclusions(snapshotProvider);
+        } else {
+            snapshotProvider.trackFileChange(uri);
+        }
+    };
+    watcher.onDidChange(onDidChangeFile);
+    watcher.onDidCreate(onDidChangeFile);
+    watcher.onDidDelete(onDidChangeFile);
+}
+
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
 }
 
 export function deactivate() { }
\ No newline at end of file